@@ -4,11 +4,19 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { OutboxProvider } from "@/contexts/OutboxContext";
+import { PreferencesProvider } from "@/contexts/PreferencesContext";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Workout from "./pages/Workout";
 import History from "./pages/History";
+import WorkoutCalendar from "./pages/WorkoutCalendar";
+import Templates from "./pages/Templates";
+import Programs from "./pages/Programs";
+import ExerciseMapping from "./pages/ExerciseMapping";
+import ExerciseProgress from "./pages/ExerciseProgress";
+import Analytics from "./pages/Analytics";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,19 +25,30 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <AuthProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/dashboard" element={<Dashboard />} />
-            <Route path="/workout" element={<Workout />} />
-            <Route path="/history" element={<History />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+        <PreferencesProvider>
+          <OutboxProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/workout" element={<Workout />} />
+                <Route path="/workout/:id" element={<Workout />} />
+                <Route path="/history" element={<History />} />
+                <Route path="/calendar" element={<WorkoutCalendar />} />
+                <Route path="/templates" element={<Templates />} />
+                <Route path="/programs" element={<Programs />} />
+                <Route path="/exercises/map" element={<ExerciseMapping />} />
+                <Route path="/exercise/:name" element={<ExerciseProgress />} />
+                <Route path="/analytics" element={<Analytics />} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </OutboxProvider>
+        </PreferencesProvider>
       </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
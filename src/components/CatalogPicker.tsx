@@ -0,0 +1,62 @@
+import { useMemo, useState } from 'react';
+import { ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useExerciseCatalog } from '@/hooks/use-exercise-catalog';
+import { MUSCLE_LABELS, searchCatalog, type CatalogEntry } from '@/lib/catalog';
+
+interface CatalogPickerProps {
+  value: CatalogEntry | null;
+  onChange: (entry: CatalogEntry) => void;
+}
+
+const CatalogPicker = ({ value, onChange }: CatalogPickerProps) => {
+  const catalog = useExerciseCatalog();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchCatalog(catalog, query, 50), [catalog, query]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className="w-full justify-between font-normal">
+          <span className="truncate">{value?.name ?? 'Escolha um exercício'}</span>
+          <ChevronsUpDown className="w-4 h-4 ml-2 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-[var(--radix-popover-trigger-width)]">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Buscar no catálogo..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>Nenhum exercício encontrado</CommandEmpty>
+            {results.map((entry) => (
+              <CommandItem
+                key={entry.id}
+                value={entry.id}
+                onSelect={() => {
+                  onChange(entry);
+                  setOpen(false);
+                }}
+                className="flex flex-col items-start"
+              >
+                <span>{entry.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {entry.primary_muscles.map((muscle) => MUSCLE_LABELS[muscle]).join(', ')}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CatalogPicker;
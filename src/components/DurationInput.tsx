@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { formatClock, parseClock } from '@/lib/workout';
+
+interface DurationInputProps {
+  value: number | null;
+  onChange: (seconds: number | null) => void;
+  className?: string;
+}
+
+/**
+ * Free-text "mm:ss" field. The value is only parsed on blur, so half-typed
+ * input like "1:" is not reformatted under the cursor.
+ */
+const DurationInput = ({ value, onChange, className }: DurationInputProps) => {
+  const [text, setText] = useState(value != null ? formatClock(value) : '');
+  const focused = useRef(false);
+
+  useEffect(() => {
+    if (!focused.current) setText(value != null ? formatClock(value) : '');
+  }, [value]);
+
+  return (
+    <Input
+      inputMode="numeric"
+      placeholder="mm:ss"
+      value={text}
+      onFocus={() => {
+        focused.current = true;
+      }}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        focused.current = false;
+        const seconds = parseClock(text);
+        setText(seconds != null ? formatClock(seconds) : '');
+        onChange(seconds);
+      }}
+      className={className}
+    />
+  );
+};
+
+export default DurationInput;
@@ -0,0 +1,76 @@
+import { useMemo, useState } from 'react';
+import { Command as CommandPrimitive } from 'cmdk';
+import { Command, CommandItem, CommandList } from '@/components/ui/command';
+import { useExerciseCatalog } from '@/hooks/use-exercise-catalog';
+import { EQUIPMENT_LABELS, findCatalogMatch, MUSCLE_LABELS, searchCatalog } from '@/lib/catalog';
+import { cn } from '@/lib/utils';
+
+interface ExerciseNameInputProps {
+  value: string;
+  catalogId: string | null;
+  onChange: (name: string, catalogId: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Free-text exercise name with catalog suggestions. Picking a suggestion (or
+ * typing a catalog name/alias exactly) links the exercise to the catalog;
+ * anything else is kept as a custom exercise.
+ */
+const ExerciseNameInput = ({ value, catalogId, onChange, className }: ExerciseNameInputProps) => {
+  const catalog = useExerciseCatalog();
+  const [open, setOpen] = useState(false);
+  const results = useMemo(() => searchCatalog(catalog, value, 8), [catalog, value]);
+  const selected = catalog.find((entry) => entry.id === catalogId);
+
+  return (
+    <Command shouldFilter={false} className="relative overflow-visible bg-transparent">
+      <CommandPrimitive.Input
+        value={value}
+        placeholder="Ex: Supino Reto"
+        onValueChange={(name) => {
+          onChange(name, findCatalogMatch(catalog, name)?.id ?? null);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        className={cn(
+          'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-base ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 md:text-sm',
+          className
+        )}
+      />
+      {open && value.trim() && results.length > 0 && (
+        <CommandList
+          // Keep focus in the input so the click lands before the list unmounts
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute top-full z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md"
+        >
+          {results.map((entry) => (
+            <CommandItem
+              key={entry.id}
+              value={entry.id}
+              onSelect={() => {
+                onChange(entry.name, entry.id);
+                setOpen(false);
+              }}
+              className="flex flex-col items-start"
+            >
+              <span>{entry.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {entry.primary_muscles.map((muscle) => MUSCLE_LABELS[muscle]).join(', ')}
+              </span>
+            </CommandItem>
+          ))}
+        </CommandList>
+      )}
+      {selected && (
+        <p className="text-xs text-muted-foreground mt-1">
+          {selected.primary_muscles.map((muscle) => MUSCLE_LABELS[muscle]).join(', ')} ·{' '}
+          {EQUIPMENT_LABELS[selected.equipment] ?? selected.equipment}
+        </p>
+      )}
+    </Command>
+  );
+};
+
+export default ExerciseNameInput;
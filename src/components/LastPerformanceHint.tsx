@@ -0,0 +1,27 @@
+import { Copy, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatDateKey } from '@/lib/dates';
+import { summarizeSets, type LastPerformance } from '@/lib/history';
+import type { WeightUnit } from '@/lib/units';
+
+interface LastPerformanceHintProps {
+  performance: LastPerformance;
+  unit: WeightUnit;
+  onCopy: () => void;
+}
+
+const LastPerformanceHint = ({ performance, unit, onCopy }: LastPerformanceHintProps) => (
+  <div className="flex items-center justify-between gap-2 mt-1 text-xs text-muted-foreground">
+    <span className="flex items-center gap-1">
+      <History className="w-3 h-3" />
+      Última vez ({formatDateKey(performance.date)}):{' '}
+      <strong className="text-foreground">{summarizeSets(performance.sets, performance.kind, unit)}</strong>
+    </span>
+    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onCopy}>
+      <Copy className="w-3 h-3 mr-1" />
+      Copiar
+    </Button>
+  </div>
+);
+
+export default LastPerformanceHint;
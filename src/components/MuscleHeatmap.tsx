@@ -0,0 +1,110 @@
+import { MUSCLE_LABELS, type MuscleGroup } from '@/lib/catalog';
+import { cn } from '@/lib/utils';
+
+interface MuscleHeatmapProps {
+  /** 0–1 per muscle; missing muscles weren't trained. */
+  load: Partial<Record<MuscleGroup, number>>;
+  selected?: MuscleGroup | null;
+  onSelect?: (muscle: MuscleGroup) => void;
+}
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number) =>
+  `M${cx - rx} ${cy} a${rx} ${ry} 0 1 0 ${rx * 2} 0 a${rx} ${ry} 0 1 0 ${-rx * 2} 0 Z`;
+
+const rect = (x: number, y: number, width: number, height: number) =>
+  `M${x} ${y} h${width} v${height} h${-width} Z`;
+
+// Each view is drawn as its left half on a 100-wide canvas and mirrored around x = 50
+const SILHOUETTE = [
+  ellipse(50, 14, 9, 10),
+  rect(46, 22, 4, 8),
+  'M50 28 L40 29 Q34 31 34 40 L35 90 L50 92 Z',
+  'M34 32 Q24 32 22 42 L21 68 L30 68 L33 44 Z',
+  'M21 68 L19 95 L27 95 L30 68 Z',
+  ellipse(23, 99, 4, 4),
+  'M35 88 Q34 120 37 144 L47 144 Q49 118 50 92 Z',
+  'M37 144 Q36 162 38 178 L45 178 Q47 162 47 144 Z',
+  ellipse(41, 181, 5, 3),
+];
+
+const FRONT: [MuscleGroup, string][] = [
+  ['traps', 'M46 27 L38 31 L46 31 Z'],
+  ['front_delts', ellipse(33, 37, 5, 6)],
+  ['side_delts', ellipse(26.5, 41, 3.5, 6)],
+  ['chest', 'M49 33 L38 33 Q34 40 37 50 Q44 54 49 51 Z'],
+  ['biceps', ellipse(27, 57, 4, 9)],
+  ['forearms', ellipse(24.5, 80, 3.5, 11)],
+  ['abs', 'M49 54 L44 55 Q43 70 44 84 L49 86 Z'],
+  ['obliques', 'M43 55 L37 54 Q36 70 40 84 L43 84 Z'],
+  ['abductors', ellipse(37, 94, 2.5, 6)],
+  ['quads', 'M40 98 Q35 112 38 136 L46 136 Q48 114 46 99 Z'],
+  ['adductors', 'M49 94 Q46 100 47 118 L49 112 Z'],
+  ['calves', ellipse(39.5, 158, 2.5, 11)],
+];
+
+const BACK: [MuscleGroup, string][] = [
+  ['traps', 'M50 24 L38 32 L50 48 Z'],
+  ['rear_delts', ellipse(33, 37, 5, 6)],
+  ['side_delts', ellipse(26.5, 41, 3.5, 6)],
+  ['triceps', ellipse(27, 57, 4, 9)],
+  ['forearms', ellipse(24.5, 80, 3.5, 11)],
+  ['upper_back', 'M49 34 L42 36 L44 52 L49 50 Z'],
+  ['lats', 'M40 38 Q34 52 42 70 L48 66 L44 54 Z'],
+  ['lower_back', 'M49 68 L43 71 L43 85 L49 86 Z'],
+  ['abductors', ellipse(37, 89, 2.5, 5)],
+  ['glutes', ellipse(43.5, 96, 6.5, 8)],
+  ['hamstrings', 'M37 106 Q35 120 39 138 L47 138 Q49 120 48 106 Z'],
+  ['calves', ellipse(41.5, 156, 4.5, 12)],
+];
+
+const BodyView = ({
+  label,
+  shapes,
+  load,
+  selected,
+  onSelect,
+}: MuscleHeatmapProps & { label: string; shapes: [MuscleGroup, string][] }) => {
+  const half = (
+    <>
+      {SILHOUETTE.map((d) => (
+        <path key={d} d={d} fill="hsl(var(--secondary))" />
+      ))}
+      {shapes.map(([muscle, d]) => {
+        const value = load[muscle] ?? 0;
+        return (
+          <path
+            key={`${muscle}-${d}`}
+            d={d}
+            fill={value > 0 ? `hsl(var(--primary) / ${0.2 + value * 0.8})` : 'hsl(var(--muted))'}
+            stroke={selected === muscle ? 'hsl(var(--foreground))' : 'hsl(var(--border))'}
+            strokeWidth={selected === muscle ? 1 : 0.5}
+            className={cn(onSelect && 'cursor-pointer')}
+            onClick={() => onSelect?.(muscle)}
+          >
+            <title>{MUSCLE_LABELS[muscle]}</title>
+          </path>
+        );
+      })}
+    </>
+  );
+
+  return (
+    <figure className="flex-1 max-w-[160px]">
+      <svg viewBox="0 0 100 186" className="w-full h-auto" role="img" aria-label={label}>
+        {half}
+        <g transform="matrix(-1 0 0 1 100 0)">{half}</g>
+      </svg>
+      <figcaption className="text-xs text-muted-foreground text-center mt-1">{label}</figcaption>
+    </figure>
+  );
+};
+
+/** Front and back body diagrams, each muscle shaded by its load. */
+const MuscleHeatmap = (props: MuscleHeatmapProps) => (
+  <div className="flex justify-center gap-6">
+    <BodyView label="Frente" shapes={FRONT} {...props} />
+    <BodyView label="Costas" shapes={BACK} {...props} />
+  </div>
+);
+
+export default MuscleHeatmap;
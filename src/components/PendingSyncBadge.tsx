@@ -0,0 +1,22 @@
+import { CloudOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+
+interface PendingSyncBadgeProps {
+  /** Set when the server refused the workout instead of it just waiting. */
+  error?: string | null;
+}
+
+const PendingSyncBadge = ({ error }: PendingSyncBadgeProps) =>
+  error ? (
+    <Badge variant="outline" className="gap-1 border-destructive/50 text-destructive" title={error}>
+      <CloudOff className="w-3 h-3" />
+      Falha na sincronização
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="gap-1 border-yellow-500/50 text-yellow-500">
+      <CloudOff className="w-3 h-3" />
+      Sincronização pendente
+    </Badge>
+  );
+
+export default PendingSyncBadge;
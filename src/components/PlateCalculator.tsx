@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { Flame } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  loadBar,
+  loadPlateInventory,
+  savePlateInventory,
+  warmupSets,
+  type PlateInventory,
+  type WarmupSet,
+} from '@/lib/plates';
+import { roundTo } from '@/lib/strength';
+import type { WeightUnit } from '@/lib/units';
+
+interface PlateCalculatorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  exerciseName: string;
+  unit: WeightUnit;
+  /** Heaviest working set, already in `unit`; prefilled as the target. */
+  workingWeight: number;
+  /** Receives the warm-up sets in `unit`. */
+  onInsertWarmups: (sets: WarmupSet[]) => void;
+}
+
+const formatNumber = (value: number) => roundTo(value, 0.01).toLocaleString('pt-BR');
+
+const PlateCalculator = ({
+  open,
+  onOpenChange,
+  exerciseName,
+  unit,
+  workingWeight,
+  onInsertWarmups,
+}: PlateCalculatorProps) => {
+  const [target, setTarget] = useState(workingWeight);
+  const [inventory, setInventory] = useState<PlateInventory>(() => loadPlateInventory(unit));
+
+  useEffect(() => {
+    if (open) setTarget(workingWeight);
+  }, [open, workingWeight]);
+
+  useEffect(() => {
+    setInventory(loadPlateInventory(unit));
+  }, [unit]);
+
+  const updateInventory = (next: PlateInventory) => {
+    setInventory(next);
+    savePlateInventory(unit, next);
+  };
+
+  const load = loadBar(target, inventory);
+  const warmups = warmupSets(target, inventory);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Calculadora de anilhas</DialogTitle>
+          <DialogDescription>{exerciseName || 'Exercício'}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="plate-target">Carga alvo ({unit})</Label>
+              <Input
+                id="plate-target"
+                type="number"
+                min="0"
+                step="0.5"
+                value={target || ''}
+                onChange={(e) => setTarget(parseFloat(e.target.value) || 0)}
+                className="bg-secondary/50 border-border mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="plate-bar">Barra ({unit})</Label>
+              <Input
+                id="plate-bar"
+                type="number"
+                min="0"
+                step="0.5"
+                value={inventory.bar || ''}
+                onChange={(e) => updateInventory({ ...inventory, bar: parseFloat(e.target.value) || 0 })}
+                className="bg-secondary/50 border-border mt-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-muted-foreground mb-2">Por lado</p>
+            {load.perSide.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {load.perSide.map((weight, index) => (
+                  <span
+                    key={index}
+                    className="px-3 py-1 rounded-full bg-primary/10 text-primary font-semibold"
+                  >
+                    {formatNumber(weight)}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm">Só a barra</p>
+            )}
+            <p className="text-sm mt-2">
+              Total montado: <strong>{formatNumber(load.total)} {unit}</strong>
+              {load.total < target - 0.001 && (
+                <span className="text-destructive">
+                  {' '}
+                  (faltam {formatNumber(target - load.total)} {unit} com as anilhas disponíveis)
+                </span>
+              )}
+            </p>
+          </div>
+
+          <div>
+            <p className="text-sm text-muted-foreground mb-2">Anilhas disponíveis (quantidade total)</p>
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {inventory.plates.map((plate, index) => (
+                <div key={plate.weight}>
+                  <Label htmlFor={`plate-${plate.weight}`} className="text-xs">
+                    {formatNumber(plate.weight)} {unit}
+                  </Label>
+                  <Input
+                    id={`plate-${plate.weight}`}
+                    type="number"
+                    min="0"
+                    value={plate.count}
+                    onChange={(e) =>
+                      updateInventory({
+                        ...inventory,
+                        plates: inventory.plates.map((p, i) =>
+                          i === index ? { ...p, count: parseInt(e.target.value) || 0 } : p
+                        ),
+                      })
+                    }
+                    className="bg-secondary/50 border-border mt-1"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-muted-foreground mb-2">Aquecimento sugerido</p>
+            {warmups.length > 0 ? (
+              <>
+                <ul className="space-y-1 text-sm mb-3">
+                  {warmups.map((set) => (
+                    <li key={set.weight} className="flex justify-between">
+                      <span>
+                        {set.weight === inventory.bar ? 'Barra' : `${Math.round((set.weight / target) * 100)}%`}
+                      </span>
+                      <span className="font-semibold">
+                        {set.reps} × {formatNumber(set.weight)} {unit}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => {
+                    onInsertWarmups(warmups);
+                    onOpenChange(false);
+                  }}
+                >
+                  <Flame className="w-4 h-4 mr-2" />
+                  Inserir como aquecimento
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm">A carga alvo é leve demais para aquecer com a barra.</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlateCalculator;
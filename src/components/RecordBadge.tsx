@@ -0,0 +1,37 @@
+import { Trophy } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { describeRecord, RECORD_TYPE_LABELS, type PersonalRecord, type RecordType } from '@/lib/records';
+import type { WeightUnit } from '@/lib/units';
+
+interface RecordBadgeProps {
+  records: PersonalRecord[];
+  /** The exercise's own unit; defaults to the preferred one. */
+  unit?: WeightUnit;
+}
+
+const RecordBadge = ({ records, unit }: RecordBadgeProps) => {
+  const { preferences } = usePreferences();
+
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1 border-primary/50 text-primary"
+      title={records
+        .map(
+          (record) =>
+            `${RECORD_TYPE_LABELS[record.record_type as RecordType]}: ${describeRecord(
+              record,
+              preferences.e1rmFormula,
+              unit ?? preferences.weightUnit
+            )}`
+        )
+        .join('\n')}
+    >
+      <Trophy className="w-3 h-3" />
+      PR
+    </Badge>
+  );
+};
+
+export default RecordBadge;
@@ -0,0 +1,50 @@
+import { motion } from 'framer-motion';
+import { Timer, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { formatDuration, REST_STEP_SECONDS, type RestTimerState } from '@/lib/rest';
+
+interface RestTimerProps {
+  timer: RestTimerState;
+  remaining: number;
+  finished: boolean;
+  onAdjust: (deltaSeconds: number) => void;
+  onStop: () => void;
+}
+
+const RestTimer = ({ timer, remaining, finished, onAdjust, onStop }: RestTimerProps) => (
+  <motion.div
+    initial={{ opacity: 0, y: 40 }}
+    animate={{ opacity: 1, y: 0 }}
+    className="fixed bottom-4 inset-x-4 z-50 max-w-4xl mx-auto"
+  >
+    <div className="glass-card rounded-xl p-4 shadow-lg">
+      <div className="flex items-center gap-3">
+        <Timer className={`w-5 h-5 ${finished ? 'text-primary animate-pulse' : 'text-muted-foreground'}`} />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-muted-foreground truncate">
+            {finished ? 'Descanso encerrado' : `Descanso · ${timer.exerciseName || 'Exercício'}`}
+          </p>
+          <p className={`text-2xl font-bold tabular-nums ${finished ? 'text-primary' : ''}`}>
+            {formatDuration(remaining)}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => onAdjust(-REST_STEP_SECONDS)}>
+          -{REST_STEP_SECONDS}s
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onAdjust(REST_STEP_SECONDS)}>
+          +{REST_STEP_SECONDS}s
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onStop}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <Progress
+        value={timer.duration > 0 ? 100 - (remaining / timer.duration) * 100 : 100}
+        className="h-1 mt-3"
+      />
+    </div>
+  </motion.div>
+);
+
+export default RestTimer;
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { formatElapsed } from '@/lib/session';
+
+interface SessionClockProps {
+  startedAt: string;
+}
+
+// Ticks on its own so the rest of the editor does not re-render every second
+const SessionClock = ({ startedAt }: SessionClockProps) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const interval = setInterval(tick, 1000);
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, []);
+
+  return (
+    <span className="flex items-center gap-1 text-primary font-semibold tabular-nums">
+      <Clock className="w-4 h-4" />
+      {formatElapsed((now - Date.parse(startedAt)) / 1000)}
+    </span>
+  );
+};
+
+export default SessionClock;
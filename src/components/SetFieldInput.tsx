@@ -0,0 +1,157 @@
+import DurationInput from '@/components/DurationInput';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { effortRpe } from '@/lib/strength';
+import { fromUnit, toUnit, type WeightUnit } from '@/lib/units';
+import {
+  normalizeTempo,
+  RIR_OPTIONS,
+  RPE_OPTIONS,
+  type SetField,
+  type WorkoutSet,
+} from '@/lib/workout';
+
+interface SetFieldInputProps {
+  field: SetField;
+  set: WorkoutSet;
+  /** Unit the weight is typed in; it is stored in kg. */
+  unit: WeightUnit;
+  onChange: (changes: Partial<WorkoutSet>) => void;
+}
+
+const inputClassName = 'bg-secondary/50 border-border';
+
+const optionalNumber = (value: string, parse: (value: string) => number) =>
+  value === '' || Number.isNaN(parse(value)) ? null : parse(value);
+
+// Radix selects cannot hold an empty value
+const NO_EFFORT = 'none';
+
+/**
+ * Effort in the user's scale. A set logged with the other scale is shown
+ * converted, and picking a value rewrites it in the current one.
+ */
+const EffortSelect = ({ set, onChange }: Pick<SetFieldInputProps, 'set' | 'onChange'>) => {
+  const { preferences } = usePreferences();
+  const rpe = effortRpe(set.rpe, set.rir);
+  const rir = set.rir ?? (set.rpe != null ? Math.round(10 - set.rpe) : null);
+  const value = preferences.effortScale === 'rir' ? rir : rpe;
+  const options = preferences.effortScale === 'rir' ? RIR_OPTIONS : RPE_OPTIONS;
+
+  return (
+    <Select
+      value={value != null ? String(value) : NO_EFFORT}
+      onValueChange={(selected) => {
+        const number = selected === NO_EFFORT ? null : Number(selected);
+        onChange(
+          preferences.effortScale === 'rir' ? { rpe: null, rir: number } : { rpe: number, rir: null }
+        );
+      }}
+    >
+      <SelectTrigger className={inputClassName}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_EFFORT}>—</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option} value={String(option)}>
+            {option.toLocaleString('pt-BR')}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+/**
+ * One editable cell of a set row. Distance is typed in km but stored in
+ * meters, and weight in the exercise's unit but stored in kg.
+ */
+const SetFieldInput = ({ field, set, unit, onChange }: SetFieldInputProps) => {
+  switch (field) {
+    case 'reps':
+      return (
+        <Input
+          type="number"
+          min="0"
+          value={set.reps || ''}
+          onChange={(e) => onChange({ reps: parseInt(e.target.value) || 0 })}
+          className={inputClassName}
+        />
+      );
+    case 'weight':
+      return (
+        <Input
+          type="number"
+          min="0"
+          step="0.5"
+          value={set.weight ? toUnit(set.weight, unit) : ''}
+          onChange={(e) => onChange({ weight: fromUnit(parseFloat(e.target.value) || 0, unit) })}
+          className={inputClassName}
+        />
+      );
+    case 'duration':
+      return (
+        <DurationInput
+          value={set.duration_seconds}
+          onChange={(seconds) => onChange({ duration_seconds: seconds })}
+          className={inputClassName}
+        />
+      );
+    case 'distance':
+      return (
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          value={set.distance_meters != null ? set.distance_meters / 1000 : ''}
+          onChange={(e) => {
+            const km = optionalNumber(e.target.value, parseFloat);
+            onChange({ distance_meters: km != null ? Math.round(km * 1000 * 100) / 100 : null });
+          }}
+          className={inputClassName}
+        />
+      );
+    case 'calories':
+      return (
+        <Input
+          type="number"
+          min="0"
+          value={set.calories ?? ''}
+          onChange={(e) => onChange({ calories: optionalNumber(e.target.value, (v) => parseInt(v, 10)) })}
+          className={inputClassName}
+        />
+      );
+    case 'incline':
+      return (
+        <Input
+          type="number"
+          step="0.5"
+          value={set.incline ?? ''}
+          onChange={(e) => onChange({ incline: optionalNumber(e.target.value, parseFloat) })}
+          className={inputClassName}
+        />
+      );
+    case 'effort':
+      return <EffortSelect set={set} onChange={onChange} />;
+    case 'tempo':
+      return (
+        <Input
+          placeholder="3-1-1-0"
+          value={set.tempo ?? ''}
+          onChange={(e) => onChange({ tempo: e.target.value || null })}
+          onBlur={(e) => onChange({ tempo: normalizeTempo(e.target.value) })}
+          className={inputClassName}
+        />
+      );
+  }
+};
+
+export default SetFieldInput;
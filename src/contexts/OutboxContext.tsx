@@ -0,0 +1,155 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  enqueueWorkout,
+  flushOutbox,
+  getPendingWorkouts,
+  MAX_ATTEMPTS,
+  retryWorkout,
+  saveWorkoutNow,
+  subscribe,
+  syncEntry,
+  type OutboxEntry,
+} from '@/lib/outbox';
+import { summarizeRecords, type PersonalRecord } from '@/lib/records';
+import type { WorkoutPayload } from '@/lib/workout';
+
+export type SaveOutcome = { status: 'synced'; records: PersonalRecord[] } | { status: 'queued' };
+
+interface OutboxContextType {
+  pending: OutboxEntry[];
+  /** Bumped whenever an entry reaches the server, so lists know to refetch. */
+  syncVersion: number;
+  isPending: (workoutId: string) => boolean;
+  /** Why the server refused a pending workout, or null if it hasn't. */
+  failure: (workoutId: string) => string | null;
+  /** Sends a refused workout again, e.g. after the cause was fixed elsewhere. */
+  retry: (workoutId: string) => Promise<void>;
+  saveWorkout: (payload: WorkoutPayload) => Promise<SaveOutcome>;
+  syncNow: () => Promise<void>;
+}
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export const OutboxProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const { preferences } = usePreferences();
+  const { toast } = useToast();
+  const [pending, setPending] = useState<OutboxEntry[]>([]);
+  const [syncVersion, setSyncVersion] = useState(0);
+
+  // Without IndexedDB nothing can be pending
+  const refresh = useCallback(async () => {
+    setPending(user ? await getPendingWorkouts(user.id).catch(() => []) : []);
+  }, [user]);
+
+  const sync = useCallback(
+    async (force: boolean) => {
+      if (!user || !navigator.onLine) return;
+
+      const results = await flushOutbox(user.id, force).catch(() => []);
+      const synced = results.filter(({ result }) => result.status === 'synced');
+      const records = results.flatMap(({ result }) =>
+        result.status === 'synced' ? result.records : []
+      );
+
+      if (synced.length > 0) {
+        setSyncVersion((version) => version + 1);
+        toast({
+          title: synced.length === 1 ? 'Treino sincronizado' : `${synced.length} treinos sincronizados`,
+          description: records.length > 0 ? `Novos recordes! ${summarizeRecords(records, preferences.e1rmFormula, preferences.weightUnit)}` : undefined,
+        });
+      }
+
+      results.forEach(({ entry, result }) => {
+        const exhausted = result.status === 'retry' && entry.attempts + 1 >= MAX_ATTEMPTS;
+        if (result.status === 'rejected' || exhausted) {
+          toast({
+            title: `Erro ao sincronizar "${entry.payload.name}"`,
+            description:
+              result.status === 'rejected'
+                ? `${result.error} Corrija, tente de novo ou exclua o treino no histórico.`
+                : 'error' in result
+                  ? result.error
+                  : undefined,
+            variant: 'destructive',
+          });
+        }
+      });
+    },
+    [user, toast, preferences.e1rmFormula, preferences.weightUnit]
+  );
+
+  useEffect(() => {
+    refresh();
+    return subscribe(refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    sync(false);
+
+    const handleOnline = () => sync(true);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [sync]);
+
+  // Wake up when the earliest backoff delay expires
+  useEffect(() => {
+    const waiting = pending.filter(
+      (entry) => !entry.failed && entry.attempts > 0 && entry.attempts < MAX_ATTEMPTS
+    );
+    if (waiting.length === 0) return;
+
+    const nextAttemptAt = Math.min(...waiting.map((entry) => entry.nextAttemptAt));
+    const timeout = setTimeout(() => sync(false), Math.max(nextAttemptAt - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [pending, sync]);
+
+  const saveWorkout = async (payload: WorkoutPayload): Promise<SaveOutcome> => {
+    // Without IndexedDB (private mode, quota) the workout can't wait for a
+    // connection, so it goes straight to the server or not at all
+    const entry = await enqueueWorkout(user!.id, payload).catch(() => null);
+
+    if (entry && !navigator.onLine) return { status: 'queued' };
+
+    const result = entry ? await syncEntry(entry) : await saveWorkoutNow(payload);
+    if (result.status === 'synced') {
+      setSyncVersion((version) => version + 1);
+      return { status: 'synced', records: result.records };
+    }
+    if (entry && result.status === 'retry') return { status: 'queued' };
+
+    // Keep the user in the editor instead of leaving with an unsaved workout
+    throw new Error(result.error);
+  };
+
+  const retry = async (workoutId: string) => {
+    await retryWorkout(workoutId);
+    await sync(true);
+  };
+
+  const isPending = (workoutId: string) => pending.some((entry) => entry.id === workoutId);
+
+  const failure = (workoutId: string) => {
+    const entry = pending.find((e) => e.id === workoutId);
+    return entry?.failed ? entry.lastError : null;
+  };
+
+  return (
+    <OutboxContext.Provider
+      value={{ pending, syncVersion, isPending, failure, retry, saveWorkout, syncNow: () => sync(true) }}
+    >
+      {children}
+    </OutboxContext.Provider>
+  );
+};
+
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+  if (context === undefined) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+};
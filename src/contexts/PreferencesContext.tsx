@@ -0,0 +1,136 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { deviceTimezone, type WeekStart } from '@/lib/dates';
+import { DEFAULT_FORMULA, estimateOneRepMax, type OneRepMaxFormula } from '@/lib/strength';
+import type { WeightUnit } from '@/lib/units';
+import type { EffortScale } from '@/lib/workout';
+
+export interface Preferences {
+  e1rmFormula: OneRepMaxFormula;
+  effortScale: EffortScale;
+  weightUnit: WeightUnit;
+  /** IANA timezone that workout dates, stats and streaks are counted in. */
+  timezone: string;
+  /** Where weeks start for stats, the calendar and analytics. */
+  weekStart: WeekStart;
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  e1rmFormula: DEFAULT_FORMULA,
+  effortScale: 'rpe',
+  weightUnit: 'kg',
+  timezone: deviceTimezone(),
+  weekStart: 0,
+};
+
+interface PreferencesContextType {
+  preferences: Preferences;
+  updatePreferences: (changes: Partial<Preferences>) => Promise<void>;
+  /** Estimated 1RM of a set with the user's preferred formula. */
+  oneRepMax: (weight: number, reps: number, rpe?: number | null) => number;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+export const PreferencesProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+
+  useEffect(() => {
+    if (!user) {
+      setPreferences(DEFAULT_PREFERENCES);
+      return;
+    }
+
+    const loadPreferences = async () => {
+      // Profiles are created lazily, so a missing row just means the defaults
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('e1rm_formula, effort_scale, weight_unit, timezone, week_start')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (data) {
+        setPreferences({
+          e1rmFormula: data.e1rm_formula as OneRepMaxFormula,
+          effortScale: data.effort_scale as EffortScale,
+          weightUnit: data.weight_unit as WeightUnit,
+          timezone: data.timezone ?? DEFAULT_PREFERENCES.timezone,
+          weekStart: data.week_start as WeekStart,
+        });
+      }
+
+      // The first device signed in on sets the timezone, and moves the
+      // older workout dates into it; travelling doesn't move it
+      if (error || data?.timezone) return;
+      const { error: timezoneError } = await supabase.rpc('set_initial_timezone', {
+        p_timezone: DEFAULT_PREFERENCES.timezone,
+      });
+      if (timezoneError) {
+        toast({
+          title: 'Erro ao salvar fuso horário',
+          description: timezoneError.message,
+          variant: 'destructive',
+        });
+      }
+    };
+
+    loadPreferences();
+  }, [user]);
+
+  const updatePreferences = async (changes: Partial<Preferences>) => {
+    if (!user) return;
+
+    const previous = preferences;
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+
+    const { error } = await supabase
+      .from('profiles')
+      .upsert(
+        {
+          user_id: user.id,
+          e1rm_formula: next.e1rmFormula,
+          effort_scale: next.effortScale,
+          weight_unit: next.weightUnit,
+          week_start: next.weekStart,
+          // Only sent when changed, so a stale value can't overwrite the one
+          // set_initial_timezone stored
+          ...('timezone' in changes && { timezone: next.timezone }),
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) {
+      setPreferences(previous);
+      toast({
+        title: 'Erro ao salvar preferências',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const oneRepMax = useCallback(
+    (weight: number, reps: number, rpe?: number | null) =>
+      estimateOneRepMax(weight, reps, preferences.e1rmFormula, rpe),
+    [preferences.e1rmFormula]
+  );
+
+  return (
+    <PreferencesContext.Provider value={{ preferences, updatePreferences, oneRepMax }}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchCatalog, type CatalogEntry } from "@/lib/catalog";
+
+const EMPTY: CatalogEntry[] = [];
+
+// The catalog is static reference data: load it once per session
+export function useExerciseCatalogQuery() {
+  return useQuery({
+    queryKey: ["exercise_catalog"],
+    queryFn: fetchCatalog,
+    staleTime: Infinity,
+  });
+}
+
+export function useExerciseCatalog() {
+  const { data } = useExerciseCatalogQuery();
+
+  return data ?? EMPTY;
+}
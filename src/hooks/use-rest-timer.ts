@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  loadRestTimer,
+  playRestCue,
+  saveRestTimer,
+  unlockAudio,
+  type RestTimerState,
+} from "@/lib/rest";
+
+const TICK_MS = 250;
+// A finished timer stays on screen briefly, then gets out of the way
+const DISMISS_AFTER_MS = 10_000;
+// Restoring a rest that ended long ago would only replay a stale cue
+const STALE_AFTER_MS = 60_000;
+
+const restore = () => {
+  const timer = loadRestTimer();
+  return timer && timer.endsAt > Date.now() - STALE_AFTER_MS ? timer : null;
+};
+
+export function useRestTimer() {
+  const [timer, setTimer] = useState<RestTimerState | null>(restore);
+  const [now, setNow] = useState(Date.now);
+  const cuedFor = useRef<number | null>(null);
+
+  useEffect(() => {
+    saveRestTimer(timer);
+  }, [timer]);
+
+  // The interval only triggers re-renders: the remaining time is always
+  // endsAt - now, so throttled timers in a background tab or a locked screen
+  // cannot make it drift, and coming back to the app catches up immediately.
+  useEffect(() => {
+    if (!timer) return;
+
+    const tick = () => setNow(Date.now());
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    document.addEventListener("visibilitychange", tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", tick);
+    };
+  }, [timer]);
+
+  const remaining = timer ? Math.max(0, (timer.endsAt - now) / 1000) : 0;
+  const finished = timer !== null && remaining === 0;
+
+  useEffect(() => {
+    if (!finished || !timer) return;
+
+    if (cuedFor.current !== timer.endsAt) {
+      cuedFor.current = timer.endsAt;
+      playRestCue();
+    }
+
+    const timeout = setTimeout(() => setTimer(null), DISMISS_AFTER_MS);
+    return () => clearTimeout(timeout);
+  }, [finished, timer]);
+
+  const start = useCallback((exerciseName: string, seconds: number) => {
+    unlockAudio();
+    setTimer({ endsAt: Date.now() + seconds * 1000, duration: seconds, exerciseName });
+  }, []);
+
+  const adjust = useCallback((deltaSeconds: number) => {
+    setTimer((current) =>
+      current && {
+        ...current,
+        endsAt: Math.max(Date.now(), current.endsAt + deltaSeconds * 1000),
+        duration: Math.max(0, current.duration + deltaSeconds),
+      }
+    );
+  }, []);
+
+  const stop = useCallback(() => setTimer(null), []);
+
+  return { timer, remaining, finished, start, adjust, stop };
+}
@@ -14,38 +14,161 @@ export type Database = {
   }
   public: {
     Tables: {
+      exercise_catalog: {
+        Row: {
+          aliases: string[]
+          created_at: string | null
+          default_kind: string
+          equipment: string
+          id: string
+          movement_pattern: string
+          name: string
+          primary_muscles: string[]
+          secondary_muscles: string[]
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string | null
+          default_kind?: string
+          equipment: string
+          id?: string
+          movement_pattern: string
+          name: string
+          primary_muscles?: string[]
+          secondary_muscles?: string[]
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string | null
+          default_kind?: string
+          equipment?: string
+          id?: string
+          movement_pattern?: string
+          name?: string
+          primary_muscles?: string[]
+          secondary_muscles?: string[]
+        }
+        Relationships: []
+      }
+      exercise_sets: {
+        Row: {
+          calories: number | null
+          completed: boolean
+          created_at: string | null
+          distance_meters: number | null
+          duration_seconds: number | null
+          exercise_id: string
+          id: string
+          incline: number | null
+          reps: number
+          rir: number | null
+          rpe: number | null
+          set_number: number
+          set_type: string
+          tempo: string | null
+          weight: number | null
+        }
+        Insert: {
+          calories?: number | null
+          completed?: boolean
+          created_at?: string | null
+          distance_meters?: number | null
+          duration_seconds?: number | null
+          exercise_id: string
+          id?: string
+          incline?: number | null
+          reps?: number
+          rir?: number | null
+          rpe?: number | null
+          set_number: number
+          set_type?: string
+          tempo?: string | null
+          weight?: number | null
+        }
+        Update: {
+          calories?: number | null
+          completed?: boolean
+          created_at?: string | null
+          distance_meters?: number | null
+          duration_seconds?: number | null
+          exercise_id?: string
+          id?: string
+          incline?: number | null
+          reps?: number
+          rir?: number | null
+          rpe?: number | null
+          set_number?: number
+          set_type?: string
+          tempo?: string | null
+          weight?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exercise_sets_exercise_id_fkey"
+            columns: ["exercise_id"]
+            isOneToOne: false
+            referencedRelation: "exercises"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exercises: {
         Row: {
           created_at: string | null
+          exercise_catalog_id: string | null
+          group_id: string | null
+          group_type: string | null
           id: string
+          kind: string
           name: string
           notes: string | null
+          position: number
           reps: number
           sets: number
           weight: number | null
+          weight_unit: string | null
           workout_id: string
         }
         Insert: {
           created_at?: string | null
+          exercise_catalog_id?: string | null
+          group_id?: string | null
+          group_type?: string | null
           id?: string
+          kind?: string
           name: string
           notes?: string | null
+          position?: number
           reps?: number
           sets?: number
           weight?: number | null
+          weight_unit?: string | null
           workout_id: string
         }
         Update: {
           created_at?: string | null
+          exercise_catalog_id?: string | null
+          group_id?: string | null
+          group_type?: string | null
           id?: string
+          kind?: string
           name?: string
           notes?: string | null
+          position?: number
           reps?: number
           sets?: number
           weight?: number | null
+          weight_unit?: string | null
           workout_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "exercises_exercise_catalog_id_fkey"
+            columns: ["exercise_catalog_id"]
+            isOneToOne: false
+            referencedRelation: "exercise_catalog"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "exercises_workout_id_fkey"
             columns: ["workout_id"]
@@ -55,27 +178,354 @@ export type Database = {
           },
         ]
       }
+      personal_records: {
+        Row: {
+          achieved_on: string
+          created_at: string | null
+          exercise_id: string
+          exercise_name: string
+          id: string
+          previous_value: number | null
+          record_type: string
+          reps: number | null
+          rir: number | null
+          rpe: number | null
+          user_id: string
+          value: number
+          weight: number | null
+          workout_id: string
+        }
+        Insert: {
+          achieved_on: string
+          created_at?: string | null
+          exercise_id: string
+          exercise_name: string
+          id?: string
+          previous_value?: number | null
+          record_type: string
+          reps?: number | null
+          rir?: number | null
+          rpe?: number | null
+          user_id: string
+          value: number
+          weight?: number | null
+          workout_id: string
+        }
+        Update: {
+          achieved_on?: string
+          created_at?: string | null
+          exercise_id?: string
+          exercise_name?: string
+          id?: string
+          previous_value?: number | null
+          record_type?: string
+          reps?: number | null
+          rir?: number | null
+          rpe?: number | null
+          user_id?: string
+          value?: number
+          weight?: number | null
+          workout_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personal_records_exercise_id_fkey"
+            columns: ["exercise_id"]
+            isOneToOne: false
+            referencedRelation: "exercises"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "personal_records_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      planned_workouts: {
+        Row: {
+          created_at: string | null
+          date: string
+          id: string
+          name: string
+          notes: string | null
+          status: string
+          template_id: string | null
+          updated_at: string | null
+          user_id: string
+          workout_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          date: string
+          id?: string
+          name: string
+          notes?: string | null
+          status?: string
+          template_id?: string | null
+          updated_at?: string | null
+          user_id: string
+          workout_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          date?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          status?: string
+          template_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+          workout_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "planned_workouts_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "workout_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "planned_workouts_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
+          e1rm_formula: string
+          effort_scale: string
           id: string
+          timezone: string | null
           updated_at: string | null
           user_id: string
           username: string | null
+          week_start: number
+          weight_unit: string
         }
         Insert: {
           created_at?: string | null
+          e1rm_formula?: string
+          effort_scale?: string
           id?: string
+          timezone?: string | null
           updated_at?: string | null
           user_id: string
           username?: string | null
+          week_start?: number
+          weight_unit?: string
         }
         Update: {
           created_at?: string | null
+          e1rm_formula?: string
+          effort_scale?: string
           id?: string
+          timezone?: string | null
           updated_at?: string | null
           user_id?: string
           username?: string | null
+          week_start?: number
+          weight_unit?: string
+        }
+        Relationships: []
+      }
+      program_enrollments: {
+        Row: {
+          active: boolean
+          created_at: string | null
+          cycle: number
+          day: number
+          id: string
+          program_id: string
+          started_on: string
+          updated_at: string | null
+          user_id: string
+          week: number
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string | null
+          cycle?: number
+          day?: number
+          id?: string
+          program_id: string
+          started_on?: string
+          updated_at?: string | null
+          user_id: string
+          week?: number
+        }
+        Update: {
+          active?: boolean
+          created_at?: string | null
+          cycle?: number
+          day?: number
+          id?: string
+          program_id?: string
+          started_on?: string
+          updated_at?: string | null
+          user_id?: string
+          week?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_enrollments_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      program_lifts: {
+        Row: {
+          enrollment_id: string
+          failures: number
+          name: string
+          training_max: number
+          updated_at: string | null
+        }
+        Insert: {
+          enrollment_id: string
+          failures?: number
+          name: string
+          training_max: number
+          updated_at?: string | null
+        }
+        Update: {
+          enrollment_id?: string
+          failures?: number
+          name?: string
+          training_max?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_lifts_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "program_enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      programs: {
+        Row: {
+          created_at: string | null
+          definition: Json
+          deload_after: number
+          deload_percent: number
+          id: string
+          increment: number
+          name: string
+          notes: string | null
+          progression: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          definition?: Json
+          deload_after?: number
+          deload_percent?: number
+          id?: string
+          increment?: number
+          name: string
+          notes?: string | null
+          progression?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          definition?: Json
+          deload_after?: number
+          deload_percent?: number
+          id?: string
+          increment?: number
+          name?: string
+          notes?: string | null
+          progression?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      template_exercises: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          notes: string | null
+          position: number
+          target_reps: number
+          target_sets: number
+          target_weight: number | null
+          template_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          position?: number
+          target_reps?: number
+          target_sets?: number
+          target_weight?: number | null
+          template_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          position?: number
+          target_reps?: number
+          target_sets?: number
+          target_weight?: number | null
+          template_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_exercises_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "workout_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_templates: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          notes: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          updated_at?: string | null
+          user_id?: string
         }
         Relationships: []
       }
@@ -83,38 +533,112 @@ export type Database = {
         Row: {
           created_at: string | null
           date: string
+          enrollment_id: string | null
+          ended_at: string | null
           id: string
           name: string
           notes: string | null
+          program_day: number | null
+          program_week: number | null
+          started_at: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
           created_at?: string | null
           date?: string
+          enrollment_id?: string | null
+          ended_at?: string | null
           id?: string
           name: string
           notes?: string | null
+          program_day?: number | null
+          program_week?: number | null
+          started_at?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
           created_at?: string | null
           date?: string
+          enrollment_id?: string | null
+          ended_at?: string | null
           id?: string
           name?: string
           notes?: string | null
+          program_day?: number | null
+          program_week?: number | null
+          started_at?: string | null
           updated_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "workouts_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "program_enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      advance_program: {
+        Args: { p_workout_id: string }
+        Returns: undefined
+      }
+      dashboard_stats: {
+        Args: { p_timezone?: string; p_week_start?: number }
+        Returns: {
+          avg_duration_seconds: number | null
+          cardio_meters: number
+          cardio_seconds: number
+          current_streak: number
+          this_month: number
+          this_week: number
+          total_volume: number
+          total_workouts: number
+        }[]
+      }
+      enroll_program: {
+        Args: { p_lifts: Json; p_program_id: string }
+        Returns: string
+      }
+      map_exercise_name: {
+        Args: { p_catalog_id: string; p_name: string }
+        Returns: number
+      }
+      normalize_exercise_name: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      refresh_personal_records: {
+        Args: { p_workout_id: string }
+        Returns: undefined
+      }
+      save_template: {
+        Args: { payload: Json }
+        Returns: string
+      }
+      save_workout: {
+        Args: { payload: Json }
+        Returns: string
+      }
+      set_initial_timezone: {
+        Args: { p_timezone: string }
+        Returns: undefined
+      }
+      unmapped_exercise_names: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          name: string
+          occurrences: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
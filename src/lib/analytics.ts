@@ -0,0 +1,230 @@
+import { differenceInCalendarDays, startOfWeek, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { findCatalogMatch, type CatalogEntry, type MuscleGroup } from '@/lib/catalog';
+import { parseDateKey, toDateKey, type WeekStart } from '@/lib/dates';
+import { effortRpe } from '@/lib/strength';
+
+/** Weekly hard sets that usually drive growth for a muscle. */
+export const WEEKLY_SET_TARGET = { min: 10, max: 20 };
+
+/** Sets rated below this effort are too far from failure to count as hard. */
+const HARD_SET_MIN_RPE = 6;
+
+/** PostgREST's default max-rows: a longer response is cut off, so bigger ranges are paged. */
+const PAGE_SIZE = 1000;
+
+/** Secondary movers get half a set, e.g. triceps on a bench press. */
+const SECONDARY_SHARE = 0.5;
+
+export type TargetStatus = 'below' | 'within' | 'above';
+
+export const TARGET_STATUS_LABELS: Record<TargetStatus, string> = {
+  below: 'Abaixo',
+  within: 'Na faixa',
+  above: 'Acima',
+};
+
+export const targetStatus = (sets: number): TargetStatus =>
+  sets < WEEKLY_SET_TARGET.min ? 'below' : sets > WEEKLY_SET_TARGET.max ? 'above' : 'within';
+
+export interface MuscleVolume {
+  sets: number;
+  /** reps × weight, in kilograms. */
+  tonnage: number;
+}
+
+export interface WeekVolume {
+  /** yyyy-MM-dd of the week's first day. */
+  week: string;
+  /** Every hard set counted once, in kilograms; the muscles' tonnage overlaps. */
+  tonnage: number;
+  muscles: Partial<Record<MuscleGroup, MuscleVolume>>;
+}
+
+export interface TrainingVolume {
+  weeks: WeekVolume[];
+  /** Exercise names with sets but no catalog entry, so no muscles. */
+  unmapped: string[];
+}
+
+export const weekOf = (date: string, weekStart: WeekStart = 0) =>
+  toDateKey(startOfWeek(parseDateKey(date), { weekStartsOn: weekStart }));
+
+interface HardSets {
+  workoutId: string;
+  workoutName: string;
+  date: string;
+  name: string;
+  entry: CatalogEntry;
+  sets: { reps: number; weight: number | null }[];
+}
+
+/**
+ * Hard sets of every exercise logged since `since` (yyyy-MM-dd). A hard set
+ * is a completed working set of a strength or bodyweight exercise, unless
+ * its logged effort says it was an easy one. Exercises without a catalog link are
+ * matched by name, and listed in `unmapped` when that fails too.
+ */
+const fetchHardSets = async (since: string, catalog: CatalogEntry[]) => {
+  const fetchPage = async (from: number) => {
+    const { data, error } = await supabase
+      .from('exercises')
+      .select(
+        'id, name, kind, exercise_catalog_id, exercise_sets(reps, weight, set_type, completed, rpe, rir), workouts!inner(id, name, date)'
+      )
+      .in('kind', ['strength', 'bodyweight'])
+      .gte('workouts.date', since)
+      // A stable order keeps rows from shifting between pages
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    return data;
+  };
+
+  const data: Awaited<ReturnType<typeof fetchPage>> = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const page = await fetchPage(from);
+    data.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  const byId = new Map(catalog.map((entry) => [entry.id, entry]));
+  const exercises: HardSets[] = [];
+  const unmapped = new Set<string>();
+
+  data.forEach((row) => {
+    const hard = row.exercise_sets.filter(
+      (set) =>
+        set.completed &&
+        set.set_type !== 'warmup' &&
+        (effortRpe(set.rpe, set.rir) ?? HARD_SET_MIN_RPE) >= HARD_SET_MIN_RPE
+    );
+    if (hard.length === 0) return;
+
+    const entry =
+      (row.exercise_catalog_id ? byId.get(row.exercise_catalog_id) : undefined) ??
+      findCatalogMatch(catalog, row.name);
+    if (!entry) {
+      unmapped.add(row.name);
+      return;
+    }
+
+    exercises.push({
+      workoutId: row.workouts.id,
+      workoutName: row.workouts.name,
+      date: row.workouts.date,
+      name: row.name,
+      entry,
+      sets: hard,
+    });
+  });
+
+  return { exercises, unmapped: [...unmapped].sort((a, b) => a.localeCompare(b, 'pt-BR')) };
+};
+
+/** Each muscle an exercise works, with the share of a set it gets. */
+const muscleShares = (entry: CatalogEntry): [MuscleGroup, number][] => [
+  ...entry.primary_muscles.map((muscle): [MuscleGroup, number] => [muscle, 1]),
+  ...entry.secondary_muscles.map((muscle): [MuscleGroup, number] => [muscle, SECONDARY_SHARE]),
+];
+
+/** Hard sets and tonnage per muscle group and week since `since` (yyyy-MM-dd). */
+export const fetchTrainingVolume = async (
+  since: string,
+  catalog: CatalogEntry[],
+  weekStart: WeekStart = 0
+): Promise<TrainingVolume> => {
+  const { exercises, unmapped } = await fetchHardSets(since, catalog);
+  const weeks = new Map<string, WeekVolume>();
+
+  exercises.forEach((exercise) => {
+    const week = weekOf(exercise.date, weekStart);
+    const volume = weeks.get(week) ?? { week, tonnage: 0, muscles: {} };
+    weeks.set(week, volume);
+
+    const tonnage = exercise.sets.reduce((total, set) => total + set.reps * (set.weight ?? 0), 0);
+    volume.tonnage += tonnage;
+    muscleShares(exercise.entry).forEach(([muscle, share]) => {
+      const current = volume.muscles[muscle] ?? { sets: 0, tonnage: 0 };
+      volume.muscles[muscle] = {
+        sets: current.sets + exercise.sets.length * share,
+        tonnage: current.tonnage + tonnage * share,
+      };
+    });
+  });
+
+  return {
+    weeks: [...weeks.values()].sort((a, b) => a.week.localeCompare(b.week)),
+    unmapped,
+  };
+};
+
+/** Days looked back on for recovery, today included. */
+export const RECOVERY_DAYS = 7;
+
+/** Recency-weighted hard sets at which a muscle shows as fully loaded. */
+const FULL_LOAD_SETS = WEEKLY_SET_TARGET.min;
+
+export interface MuscleContribution {
+  workoutId: string;
+  workoutName: string;
+  date: string;
+  exercise: string;
+  /** Hard sets, halved for a secondary muscle. */
+  sets: number;
+}
+
+export interface MuscleRecovery {
+  sets: number;
+  /** yyyy-MM-dd of the latest contribution. */
+  lastTrained: string;
+  /**
+   * 0–1: hard sets weighted by recency, today's at full weight fading
+   * to nothing past `RECOVERY_DAYS`, relative to a full week's minimum.
+   */
+  load: number;
+  /** Newest first. */
+  contributions: MuscleContribution[];
+}
+
+/** How recently and heavily each muscle was trained in the days up to `today` (yyyy-MM-dd). */
+export const fetchMuscleRecovery = async (
+  today: string,
+  catalog: CatalogEntry[]
+): Promise<Partial<Record<MuscleGroup, MuscleRecovery>>> => {
+  const since = toDateKey(subDays(parseDateKey(today), RECOVERY_DAYS - 1));
+  const { exercises } = await fetchHardSets(since, catalog);
+  const muscles: Partial<Record<MuscleGroup, MuscleRecovery>> = {};
+
+  exercises.forEach((exercise) => {
+    const daysAgo = differenceInCalendarDays(parseDateKey(today), parseDateKey(exercise.date));
+    const weight = Math.max(1 - daysAgo / RECOVERY_DAYS, 0);
+
+    muscleShares(exercise.entry).forEach(([muscle, share]) => {
+      const sets = exercise.sets.length * share;
+      const current = muscles[muscle] ?? { sets: 0, lastTrained: exercise.date, load: 0, contributions: [] };
+      muscles[muscle] = {
+        sets: current.sets + sets,
+        lastTrained: exercise.date > current.lastTrained ? exercise.date : current.lastTrained,
+        load: Math.min(current.load + (sets * weight) / FULL_LOAD_SETS, 1),
+        contributions: [
+          ...current.contributions,
+          {
+            workoutId: exercise.workoutId,
+            workoutName: exercise.workoutName,
+            date: exercise.date,
+            exercise: exercise.name,
+            sets,
+          },
+        ],
+      };
+    });
+  });
+
+  Object.values(muscles).forEach((recovery) =>
+    recovery.contributions.sort((a, b) => b.date.localeCompare(a.date))
+  );
+
+  return muscles;
+};
@@ -0,0 +1,133 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ExerciseKind } from '@/lib/workout';
+
+export type MuscleGroup =
+  | 'chest'
+  | 'front_delts'
+  | 'side_delts'
+  | 'rear_delts'
+  | 'triceps'
+  | 'biceps'
+  | 'forearms'
+  | 'lats'
+  | 'upper_back'
+  | 'traps'
+  | 'lower_back'
+  | 'abs'
+  | 'obliques'
+  | 'glutes'
+  | 'quads'
+  | 'hamstrings'
+  | 'adductors'
+  | 'abductors'
+  | 'calves';
+
+export const MUSCLE_LABELS: Record<MuscleGroup, string> = {
+  chest: 'Peitoral',
+  front_delts: 'Deltoide anterior',
+  side_delts: 'Deltoide lateral',
+  rear_delts: 'Deltoide posterior',
+  triceps: 'Tríceps',
+  biceps: 'Bíceps',
+  forearms: 'Antebraço',
+  lats: 'Dorsal',
+  upper_back: 'Costas (meio)',
+  traps: 'Trapézio',
+  lower_back: 'Lombar',
+  abs: 'Abdômen',
+  obliques: 'Oblíquos',
+  glutes: 'Glúteos',
+  quads: 'Quadríceps',
+  hamstrings: 'Posteriores',
+  adductors: 'Adutores',
+  abductors: 'Abdutores',
+  calves: 'Panturrilha',
+};
+
+export const EQUIPMENT_LABELS: Record<string, string> = {
+  barbell: 'Barra',
+  dumbbell: 'Halteres',
+  machine: 'Máquina',
+  cable: 'Polia',
+  bodyweight: 'Peso corporal',
+  kettlebell: 'Kettlebell',
+  band: 'Elástico',
+  smith: 'Smith',
+  ez_bar: 'Barra W',
+  trap_bar: 'Trap bar',
+  other: 'Outro',
+};
+
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  primary_muscles: MuscleGroup[];
+  secondary_muscles: MuscleGroup[];
+  equipment: string;
+  movement_pattern: string;
+  default_kind: ExerciseKind;
+}
+
+export const fetchCatalog = async (): Promise<CatalogEntry[]> => {
+  const { data, error } = await supabase.from('exercise_catalog').select('*').order('name');
+
+  if (error) throw error;
+
+  return (data || []).map((entry) => ({
+    id: entry.id,
+    name: entry.name,
+    aliases: entry.aliases,
+    primary_muscles: entry.primary_muscles as MuscleGroup[],
+    secondary_muscles: entry.secondary_muscles as MuscleGroup[],
+    equipment: entry.equipment,
+    movement_pattern: entry.movement_pattern,
+    default_kind: entry.default_kind as ExerciseKind,
+  }));
+};
+
+/** Case-, accent- and whitespace-insensitive form used for matching. */
+const fold = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+
+/** Exact match on the canonical name or any alias. */
+export const findCatalogMatch = (catalog: CatalogEntry[], name: string) => {
+  const folded = fold(name);
+  if (!folded) return undefined;
+  return catalog.find(
+    (entry) => fold(entry.name) === folded || entry.aliases.some((alias) => fold(alias) === folded)
+  );
+};
+
+/**
+ * Ranks entries whose name or aliases contain every word of the query;
+ * matches on the canonical name and at the start of a word come first.
+ */
+export const searchCatalog = (catalog: CatalogEntry[], query: string, limit = 20) => {
+  const words = fold(query).split(' ').filter(Boolean);
+  if (words.length === 0) return catalog.slice(0, limit);
+
+  const score = (text: string) => {
+    const folded = fold(text);
+    if (!words.every((word) => folded.includes(word))) return 0;
+    return words.reduce(
+      (total, word) => total + (folded.startsWith(word) || folded.includes(` ${word}`) ? 2 : 1),
+      0
+    );
+  };
+
+  return catalog
+    .map((entry) => ({
+      entry,
+      score: Math.max(score(entry.name) * 2, ...entry.aliases.map(score)),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+};
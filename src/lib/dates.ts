@@ -0,0 +1,83 @@
+import { format } from 'date-fns';
+
+// Workout dates are calendar days ("yyyy-MM-dd"), not instants. `new Date(key)`
+// parses them as UTC midnight, which is still the previous evening in Brazil,
+// so everything here works with explicit local days or an explicit timezone.
+
+/** First day of the week, as date-fns and EXTRACT(DOW) count it: 0 is Sunday. */
+export type WeekStart = 0 | 1;
+
+export const WEEK_START_LABELS: Record<WeekStart, string> = {
+  0: 'Dom',
+  1: 'Seg',
+};
+
+/** The device's IANA timezone, used until the profile has one. */
+export const deviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/** A yyyy-MM-dd key as local midnight of that day. */
+export const parseDateKey = (key: string) => new Date(`${key}T00:00:00`);
+
+/** The local day of `date` (e.g. one picked in a calendar) as yyyy-MM-dd. */
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/** "31/01/2025", or any other `toLocaleDateString` shape via `options`. */
+export const formatDateKey = (key: string, options?: Intl.DateTimeFormatOptions) =>
+  parseDateKey(key).toLocaleDateString('pt-BR', options);
+
+const zonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Calendar day of `instant` in `timeZone`, as yyyy-MM-dd. */
+export const dateKeyIn = (instant: Date | string | number, timeZone: string) => {
+  const { year, month, day } = zonedParts(new Date(instant), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/** Today in `timeZone`, as yyyy-MM-dd. */
+export const todayIn = (timeZone: string) => dateKeyIn(Date.now(), timeZone);
+
+/** Wall-clock "HH:mm" of `instant` in `timeZone`. */
+export const timeIn = (instant: Date | string | number, timeZone: string) => {
+  const { hour, minute } = zonedParts(new Date(instant), timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * ISO instant for a wall-clock day and "HH:mm" time in `timeZone`. The
+ * offset is read back from Intl, twice, so DST transitions settle.
+ */
+export const zonedTimeToIso = (key: string, time: string, timeZone: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+
+  let instant = wall;
+  for (let i = 0; i < 2; i++) {
+    const parts = zonedParts(new Date(instant), timeZone);
+    const shown = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    instant += wall - shown;
+  }
+  return new Date(instant).toISOString();
+};
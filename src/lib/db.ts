@@ -0,0 +1,58 @@
+const DB_NAME = 'fittrack';
+const DB_VERSION = 2;
+
+export const OUTBOX_STORE = 'outbox';
+export const DRAFTS_STORE = 'drafts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+          db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDB();
+  return toPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const getAll = <T>(storeName: string) =>
+  withStore<T[]>(storeName, 'readonly', (store) => store.getAll());
+
+export const getOne = <T>(storeName: string, key: string) =>
+  withStore<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+
+export const put = <T>(storeName: string, value: T) =>
+  withStore(storeName, 'readwrite', (store) => store.put(value));
+
+export const remove = (storeName: string, key: string) =>
+  withStore(storeName, 'readwrite', (store) => store.delete(key));
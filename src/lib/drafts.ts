@@ -0,0 +1,29 @@
+import { DRAFTS_STORE, getAll, getOne, put, remove } from '@/lib/db';
+import type { WorkoutPayload } from '@/lib/workout';
+
+export interface Draft {
+  /** Same as the workout id the draft will be saved under. */
+  id: string;
+  userId: string;
+  payload: WorkoutPayload;
+  updatedAt: number;
+}
+
+/** Nothing worth resuming: no name, no exercises and no running clock. */
+export const isEmptyDraft = (payload: WorkoutPayload) =>
+  !payload.name.trim() && payload.exercises.length === 0 && !payload.started_at;
+
+export const saveDraft = (userId: string, payload: WorkoutPayload) =>
+  put<Draft>(DRAFTS_STORE, { id: payload.id, userId, payload, updatedAt: Date.now() });
+
+/** The user's drafts, most recently edited first. */
+export const getDrafts = async (userId: string) => {
+  const drafts = await getAll<Draft>(DRAFTS_STORE);
+  return drafts
+    .filter((draft) => draft.userId === userId)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getDraft = (id: string) => getOne<Draft>(DRAFTS_STORE, id);
+
+export const discardDraft = (id: string) => remove(DRAFTS_STORE, id);
@@ -0,0 +1,172 @@
+import { supabase } from '@/integrations/supabase/client';
+import { findCatalogMatch, type CatalogEntry } from '@/lib/catalog';
+import { DEFAULT_FORMULA, effortRpe, estimateOneRepMax, type OneRepMaxFormula } from '@/lib/strength';
+import { formatWeight, toUnit, type WeightUnit } from '@/lib/units';
+import { describeSet, type ExerciseKind } from '@/lib/workout';
+
+interface LoggedSet {
+  reps: number;
+  weight: number | null;
+  set_type: string;
+  duration_seconds?: number | null;
+  distance_meters?: number | null;
+  calories?: number | null;
+  incline?: number | null;
+  rpe?: number | null;
+  rir?: number | null;
+  tempo?: string | null;
+}
+
+export interface LastPerformance {
+  date: string;
+  kind: ExerciseKind;
+  sets: LoggedSet[];
+}
+
+export const normalizeExerciseName = (name: string) =>
+  name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+const namePattern = (name: string) => escapeLike(name.trim().replace(/\s+/g, ' '));
+
+/**
+ * Most recent logged sets for an exercise. A name that resolves to a catalog
+ * entry matches every exercise linked to it, aliases included; any other name
+ * matches ignoring case and extra spaces.
+ */
+export const fetchLastPerformance = async (
+  name: string,
+  catalog: CatalogEntry[],
+  excludeWorkoutId?: string
+): Promise<LastPerformance | null> => {
+  const entry = findCatalogMatch(catalog, name);
+  let query = supabase
+    .from('exercises')
+    .select(
+      'workout_id, kind, exercise_sets(reps, weight, set_type, set_number, duration_seconds, distance_meters, calories, incline, tempo), workouts!inner(date)'
+    );
+  query = entry ? query.eq('exercise_catalog_id', entry.id) : query.ilike('name', namePattern(name));
+
+  if (excludeWorkoutId) {
+    query = query.neq('workout_id', excludeWorkoutId);
+  }
+
+  const { data, error } = await query
+    .order('workouts(date)', { ascending: false })
+    .order('set_number', { referencedTable: 'exercise_sets' })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.exercise_sets.length === 0) return null;
+
+  return { date: data.workouts.date, kind: data.kind as ExerciseKind, sets: data.exercise_sets };
+};
+
+/**
+ * "3x8 @ 80 kg" when every working set matches, otherwise one "reps×weight"
+ * per set. Other kinds list each set with its own fields.
+ */
+export const summarizeSets = (
+  sets: LoggedSet[],
+  kind: ExerciseKind = 'strength',
+  unit: WeightUnit = 'kg'
+) => {
+  const working = sets.filter((set) => set.set_type !== 'warmup');
+  const shown = working.length > 0 ? working : sets;
+  if (shown.length === 0) return '';
+  if (kind !== 'strength') return shown.map((set) => describeSet(set, kind, unit)).join(', ');
+
+  const [first] = shown;
+  const uniform = shown.every((set) => set.reps === first.reps && set.weight === first.weight);
+  if (uniform) {
+    return `${shown.length}x${first.reps} @ ${formatWeight(first.weight ?? 0, unit)}`;
+  }
+  return shown
+    .map((set) => `${set.reps}×${toUnit(set.weight ?? 0, unit).toLocaleString('pt-BR')}${unit}`)
+    .join(', ');
+};
+
+export interface ExerciseSession {
+  workoutId: string;
+  workoutName: string;
+  date: string;
+  sets: (LoggedSet & { completed: boolean })[];
+}
+
+/**
+ * Every logged session of an exercise, oldest first, optionally from `since`
+ * (yyyy-MM-dd). The name is matched as in `fetchLastPerformance`.
+ */
+export const fetchExerciseHistory = async (
+  name: string,
+  catalog: CatalogEntry[],
+  since?: string
+) => {
+  const entry = findCatalogMatch(catalog, name);
+  let query = supabase
+    .from('exercises')
+    .select(
+      'exercise_sets(reps, weight, set_type, completed, set_number, rpe, rir), workouts!inner(id, name, date)'
+    );
+  query = entry ? query.eq('exercise_catalog_id', entry.id) : query.ilike('name', namePattern(name));
+
+  if (since) {
+    query = query.gte('workouts.date', since);
+  }
+
+  const { data, error } = await query
+    .order('workouts(date)', { ascending: true })
+    .order('set_number', { referencedTable: 'exercise_sets' });
+
+  if (error) throw error;
+
+  return (data || []).map(
+    (row): ExerciseSession => ({
+      workoutId: row.workouts.id,
+      workoutName: row.workouts.name,
+      date: row.workouts.date,
+      sets: row.exercise_sets,
+    })
+  );
+};
+
+/**
+ * Top set, best e1RM and volume over completed working sets (warm-ups
+ * excluded). The e1RM accounts for logged effort, and `averageRpe` is null
+ * when no working set was rated.
+ */
+export const sessionMetrics = (
+  sets: ExerciseSession['sets'],
+  formula: OneRepMaxFormula = DEFAULT_FORMULA
+) => {
+  const working = sets.filter((set) => set.completed && set.set_type !== 'warmup');
+
+  const topSet = working.reduce<(typeof working)[number] | null>(
+    (best, set) =>
+      !best ||
+      (set.weight ?? 0) > (best.weight ?? 0) ||
+      ((set.weight ?? 0) === (best.weight ?? 0) && set.reps > best.reps)
+        ? set
+        : best,
+    null
+  );
+
+  const efforts = working
+    .map((set) => effortRpe(set.rpe, set.rir))
+    .filter((rpe): rpe is number => rpe != null);
+
+  return {
+    topSet,
+    oneRepMax: Math.max(
+      0,
+      ...working.map((set) =>
+        estimateOneRepMax(set.weight ?? 0, set.reps, formula, effortRpe(set.rpe, set.rir))
+      )
+    ),
+    volume: working.reduce((total, set) => total + set.reps * (set.weight ?? 0), 0),
+    averageRpe:
+      efforts.length > 0 ? efforts.reduce((total, rpe) => total + rpe, 0) / efforts.length : null,
+  };
+};
@@ -0,0 +1,161 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { getAll, getOne, OUTBOX_STORE, put, remove } from '@/lib/db';
+import { fetchWorkoutRecords, type PersonalRecord } from '@/lib/records';
+import type { WorkoutPayload } from '@/lib/workout';
+
+export interface OutboxEntry {
+  /** Same as the workout id, so re-saving a pending workout replaces its entry. */
+  id: string;
+  userId: string;
+  payload: WorkoutPayload;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  /** The server refused it; kept for the user to retry, edit or discard. */
+  failed?: boolean;
+  createdAt: number;
+}
+
+export type SyncResult =
+  | { status: 'synced'; records: PersonalRecord[] }
+  | { status: 'retry'; error: string }
+  | { status: 'rejected'; error: string };
+
+export const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 5 * 60_000;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+export const subscribe = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const backoff = (attempts: number) =>
+  Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+
+// status 0 is what postgrest-js reports when fetch itself failed. 401/403
+// usually mean the session expired while offline, which a refresh fixes.
+const isTransient = (status: number) =>
+  status === 0 || status === 401 || status === 403 || status === 408 || status === 429 || status >= 500;
+
+export const enqueueWorkout = async (userId: string, payload: WorkoutPayload) => {
+  const existing = await getOne<OutboxEntry>(OUTBOX_STORE, payload.id);
+  const entry: OutboxEntry = {
+    id: payload.id,
+    userId,
+    payload,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+    createdAt: existing?.createdAt ?? Date.now(),
+  };
+  await put(OUTBOX_STORE, entry);
+  notify();
+  return entry;
+};
+
+export const getPendingWorkouts = async (userId: string) => {
+  const entries = await getAll<OutboxEntry>(OUTBOX_STORE);
+  return entries
+    .filter((entry) => entry.userId === userId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getPendingWorkout = (id: string) => getOne<OutboxEntry>(OUTBOX_STORE, id);
+
+export const discardWorkout = async (id: string) => {
+  await remove(OUTBOX_STORE, id);
+  notify();
+};
+
+/** Sends a workout to `save_workout`; called directly when the outbox itself is unavailable. */
+export const saveWorkoutNow = async (payload: WorkoutPayload): Promise<SyncResult> => {
+  const { error, status } = await supabase.rpc('save_workout', {
+    payload: payload as unknown as Json,
+  });
+
+  if (error) {
+    return isTransient(status)
+      ? { status: 'retry', error: error.message }
+      : { status: 'rejected', error: error.message };
+  }
+
+  // The workout is safely stored; missing the celebration is not worth a retry
+  const records = await fetchWorkoutRecords(payload.id).catch(() => []);
+  return { status: 'synced', records };
+};
+
+export const syncEntry = async (entry: OutboxEntry): Promise<SyncResult> => {
+  const result = await saveWorkoutNow(entry.payload);
+
+  if (result.status === 'synced') {
+    await discardWorkout(entry.id);
+    return result;
+  }
+
+  // The server refused it outright: replaying it would only fail again, so
+  // it waits for the user instead of being retried or thrown away
+  if (result.status === 'rejected') {
+    await put<OutboxEntry>(OUTBOX_STORE, { ...entry, failed: true, lastError: result.error });
+    notify();
+    return result;
+  }
+
+  const attempts = entry.attempts + 1;
+  await put<OutboxEntry>(OUTBOX_STORE, {
+    ...entry,
+    attempts,
+    nextAttemptAt: Date.now() + backoff(attempts),
+    lastError: result.error,
+  });
+  notify();
+
+  return result;
+};
+
+/** Queues a failed entry again, as if it had just been saved. */
+export const retryWorkout = async (id: string) => {
+  const entry = await getOne<OutboxEntry>(OUTBOX_STORE, id);
+  if (!entry) return;
+  await put<OutboxEntry>(OUTBOX_STORE, {
+    ...entry,
+    failed: false,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+  });
+  notify();
+};
+
+/**
+ * Replays every due entry for the user, oldest first. Stops at the first
+ * network failure since the remaining entries would fail the same way.
+ * With `force`, backoff delays and the attempt cap are ignored; failed
+ * entries only go again through `retryWorkout`.
+ */
+export const flushOutbox = async (userId: string, force = false) => {
+  const entries = (await getPendingWorkouts(userId)).reverse();
+  const results: { entry: OutboxEntry; result: SyncResult }[] = [];
+
+  // Refreshes a token that expired while offline before anything is replayed
+  if (entries.some((entry) => !entry.failed)) await supabase.auth.getSession();
+
+  for (const entry of entries) {
+    const due = entry.attempts < MAX_ATTEMPTS && entry.nextAttemptAt <= Date.now();
+    if (entry.failed || (!force && !due)) continue;
+
+    const result = await syncEntry(entry);
+    results.push({ entry, result });
+    if (result.status === 'retry') break;
+  }
+
+  return results;
+};
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type PlanStatus = 'planned' | 'done' | 'skipped';
+
+export const PLAN_STATUS_LABELS: Record<PlanStatus, string> = {
+  planned: 'Planejado',
+  done: 'Feito',
+  skipped: 'Pulado',
+};
+
+export interface PlannedWorkout {
+  id: string;
+  /** yyyy-MM-dd, a calendar day rather than an instant. */
+  date: string;
+  name: string;
+  notes: string;
+  template_id: string | null;
+  status: PlanStatus;
+  workout_id: string | null;
+}
+
+export const createPlannedWorkout = (date: string): PlannedWorkout => ({
+  id: crypto.randomUUID(),
+  date,
+  name: '',
+  notes: '',
+  template_id: null,
+  status: 'planned',
+  workout_id: null,
+});
+
+/** Plans between two yyyy-MM-dd dates, both inclusive. */
+export const fetchPlannedWorkouts = async (from: string, to: string) => {
+  const { data, error } = await supabase
+    .from('planned_workouts')
+    .select('*')
+    .gte('date', from)
+    .lte('date', to)
+    .order('date')
+    .order('created_at');
+
+  if (error) throw error;
+
+  return (data || []).map(
+    (plan): PlannedWorkout => ({
+      id: plan.id,
+      date: plan.date,
+      name: plan.name,
+      notes: plan.notes || '',
+      template_id: plan.template_id,
+      status: plan.status as PlanStatus,
+      workout_id: plan.workout_id,
+    })
+  );
+};
+
+export const fetchPlannedWorkout = async (id: string) => {
+  const { data, error } = await supabase.from('planned_workouts').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+export const savePlannedWorkout = async (userId: string, plan: PlannedWorkout) => {
+  const { error } = await supabase.from('planned_workouts').upsert({ ...plan, user_id: userId });
+  if (error) throw error;
+};
+
+export const setPlanStatus = async (id: string, status: PlanStatus) => {
+  const { error } = await supabase.from('planned_workouts').update({ status }).eq('id', id);
+  if (error) throw error;
+};
+
+export interface Adherence {
+  done: number;
+  skipped: number;
+  /** Still 'planned' although their day has passed. */
+  missed: number;
+  /** Share of due plans that were done, 0–1; null when nothing was due. */
+  rate: number | null;
+}
+
+/** Adherence over the plans due by `today` (yyyy-MM-dd); today's own open plans don't count yet. */
+export const planAdherence = (plans: PlannedWorkout[], today: string): Adherence => {
+  const done = plans.filter((plan) => plan.status === 'done').length;
+  const skipped = plans.filter((plan) => plan.status === 'skipped').length;
+  const missed = plans.filter((plan) => plan.status === 'planned' && plan.date < today).length;
+  const due = done + skipped + missed;
+  return { done, skipped, missed, rate: due > 0 ? done / due : null };
+};
@@ -0,0 +1,112 @@
+import { readJSON, writeJSON } from '@/lib/storage';
+import type { WeightUnit } from '@/lib/units';
+
+export interface PlateStock {
+  weight: number;
+  /** Plates owned, not pairs: an odd one out cannot be loaded symmetrically. */
+  count: number;
+}
+
+/** Bar and plates available at the gym, in the unit they are labelled in. */
+export interface PlateInventory {
+  bar: number;
+  plates: PlateStock[];
+}
+
+export const DEFAULT_INVENTORY: Record<WeightUnit, PlateInventory> = {
+  kg: {
+    bar: 20,
+    plates: [25, 20, 15, 10, 5, 2.5, 1.25].map((weight) => ({ weight, count: 4 })),
+  },
+  lb: {
+    bar: 45,
+    plates: [45, 35, 25, 10, 5, 2.5].map((weight) => ({ weight, count: 4 })),
+  },
+};
+
+const INVENTORY_KEY = 'fittrack:plates';
+
+// Like rest defaults, the inventory belongs to the gym, so it stays on this device
+export const loadPlateInventory = (unit: WeightUnit) =>
+  readJSON<Partial<Record<WeightUnit, PlateInventory>>>(INVENTORY_KEY)?.[unit] ??
+  DEFAULT_INVENTORY[unit];
+
+export const savePlateInventory = (unit: WeightUnit, inventory: PlateInventory) => {
+  const saved = readJSON<Partial<Record<WeightUnit, PlateInventory>>>(INVENTORY_KEY) ?? {};
+  saved[unit] = inventory;
+  writeJSON(INVENTORY_KEY, saved);
+};
+
+// Plate weights like 1.25 are not exact in binary
+const EPSILON = 1e-6;
+
+export interface PlateLoad {
+  /** Plates for one side of the bar, heaviest first. */
+  perSide: number[];
+  /** Bar plus plates actually loaded; below the target when it cannot be matched. */
+  total: number;
+}
+
+/**
+ * Heaviest-first loading for `target`, using pairs of plates from the
+ * inventory. Greedy is exact for the usual plate sets.
+ */
+export const loadBar = (target: number, inventory: PlateInventory): PlateLoad => {
+  const perSide: number[] = [];
+  let remaining = (target - inventory.bar) / 2;
+
+  [...inventory.plates]
+    .sort((a, b) => b.weight - a.weight)
+    .forEach(({ weight, count }) => {
+      let pairs = Math.floor(count / 2);
+      while (pairs > 0 && weight <= remaining + EPSILON) {
+        perSide.push(weight);
+        remaining -= weight;
+        pairs--;
+      }
+    });
+
+  return {
+    perSide,
+    total: inventory.bar + 2 * perSide.reduce((sum, weight) => sum + weight, 0),
+  };
+};
+
+export interface WarmupStep {
+  percent: number;
+  reps: number;
+}
+
+/** Empty bar, then 40/60/80% with fewer reps as the load climbs. */
+export const DEFAULT_WARMUP: WarmupStep[] = [
+  { percent: 0, reps: 10 },
+  { percent: 40, reps: 5 },
+  { percent: 60, reps: 3 },
+  { percent: 80, reps: 2 },
+];
+
+export interface WarmupSet {
+  weight: number;
+  reps: number;
+}
+
+/**
+ * Ramp-up sets for `workingWeight`, each rounded down to a weight that can
+ * actually be loaded. Steps that round to the same load, or to the working
+ * weight itself, are dropped.
+ */
+export const warmupSets = (
+  workingWeight: number,
+  inventory: PlateInventory,
+  steps: WarmupStep[] = DEFAULT_WARMUP
+): WarmupSet[] => {
+  const sets: WarmupSet[] = [];
+
+  steps.forEach(({ percent, reps }) => {
+    const weight = Math.max(inventory.bar, loadBar((workingWeight * percent) / 100, inventory).total);
+    if (weight >= workingWeight - EPSILON || sets.some((set) => set.weight === weight)) return;
+    sets.push({ weight, reps });
+  });
+
+  return sets;
+};
@@ -0,0 +1,354 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { findCatalogMatch, type CatalogEntry } from '@/lib/catalog';
+import { normalizeExerciseName } from '@/lib/history';
+import { roundTo } from '@/lib/strength';
+import type { TemplatePayload } from '@/lib/templates';
+import { fromUnit, toUnit, type WeightUnit } from '@/lib/units';
+import { createSet, type WorkoutExercise } from '@/lib/workout';
+
+export interface ProgramSet {
+  reps: number;
+  /** Of the lift's training max; lifts without one are left for the user to load. */
+  percent: number;
+  /** The target reps are a minimum ("5+"). */
+  amrap?: boolean;
+}
+
+export interface ProgramExercise {
+  name: string;
+  sets: ProgramSet[];
+  /** Overrides the program's increment for this lift, in kilograms. */
+  increment?: number;
+}
+
+export interface ProgramDay {
+  name: string;
+  exercises: ProgramExercise[];
+}
+
+export interface ProgramWeek {
+  days: ProgramDay[];
+}
+
+/** When training maxes move: after every workout, or once the last week is done. */
+export type Progression = 'session' | 'cycle';
+
+export const PROGRESSION_LABELS: Record<Progression, string> = {
+  session: 'A cada treino',
+  cycle: 'A cada ciclo',
+};
+
+export interface Program {
+  id: string;
+  name: string;
+  notes: string;
+  weeks: ProgramWeek[];
+  progression: Progression;
+  /** Added to a lift's training max on success, in kilograms. */
+  increment: number;
+  /** Failed sessions (or cycles with a failure) before a deload. */
+  deload_after: number;
+  deload_percent: number;
+}
+
+/** Where the user is in a program; `week` and `day` are the next ones due, 1-based. */
+export interface Enrollment {
+  id: string;
+  program_id: string;
+  cycle: number;
+  week: number;
+  day: number;
+  started_on: string;
+}
+
+export interface ProgramLift {
+  /** Normalized exercise name, see `normalizeExerciseName`. */
+  name: string;
+  training_max: number;
+  failures: number;
+}
+
+export interface EnrollmentState {
+  enrollment: Enrollment;
+  program: Program;
+  lifts: ProgramLift[];
+}
+
+const sets = (count: number, reps: number, percent = 100): ProgramSet[] =>
+  Array.from({ length: count }, () => ({ reps, percent }));
+
+// 5/3/1 main sets per week, the last one for as many reps as possible
+const WENDLER_WEEKS: [number, number][][] = [
+  [[65, 5], [75, 5], [85, 5]],
+  [[70, 3], [80, 3], [90, 3]],
+  [[75, 5], [85, 3], [95, 1]],
+  [[40, 5], [50, 5], [60, 5]],
+];
+
+const WENDLER_LIFTS = [
+  { name: 'Desenvolvimento com Barra', increment: 2.5 },
+  { name: 'Levantamento Terra', increment: 5 },
+  { name: 'Supino Reto com Barra', increment: 2.5 },
+  { name: 'Agachamento Livre', increment: 5 },
+];
+
+export const PROGRAM_PRESETS: Omit<Program, 'id'>[] = [
+  {
+    name: 'Progressão Linear 5x5',
+    notes: 'Alterne A e B. Some carga a cada treino bem-sucedido; três falhas seguidas reduzem 10%.',
+    progression: 'session',
+    increment: 2.5,
+    deload_after: 3,
+    deload_percent: 10,
+    weeks: [
+      {
+        days: [
+          {
+            name: 'Treino A',
+            exercises: [
+              { name: 'Agachamento Livre', sets: sets(5, 5) },
+              { name: 'Supino Reto com Barra', sets: sets(5, 5) },
+              { name: 'Remada Curvada com Barra', sets: sets(5, 5) },
+            ],
+          },
+          {
+            name: 'Treino B',
+            exercises: [
+              { name: 'Agachamento Livre', sets: sets(5, 5) },
+              { name: 'Desenvolvimento com Barra', sets: sets(5, 5) },
+              { name: 'Levantamento Terra', sets: sets(1, 5), increment: 5 },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    name: '5/3/1',
+    notes: 'Use 90% do seu 1RM como carga de treino. A última série de cada dia é AMRAP.',
+    progression: 'cycle',
+    increment: 2.5,
+    deload_after: 2,
+    deload_percent: 10,
+    weeks: WENDLER_WEEKS.map((week, index) => ({
+      days: WENDLER_LIFTS.map(({ name, increment }) => ({
+        name,
+        exercises: [
+          {
+            name,
+            increment,
+            // The deload week has no AMRAP set
+            sets: week.map(([percent, reps], set) => ({
+              reps,
+              percent,
+              ...(index < 3 && set === week.length - 1 ? { amrap: true } : {}),
+            })),
+          },
+        ],
+      })),
+    })),
+  },
+  {
+    name: 'Push Pull Legs',
+    notes: 'Progrida os compostos a cada treino; os acessórios ficam por sua conta.',
+    progression: 'session',
+    increment: 2.5,
+    deload_after: 3,
+    deload_percent: 10,
+    weeks: [
+      {
+        days: [
+          {
+            name: 'Push',
+            exercises: [
+              { name: 'Supino Reto com Barra', sets: sets(4, 6) },
+              { name: 'Desenvolvimento com Barra', sets: sets(3, 8) },
+              { name: 'Elevação Lateral com Halteres', sets: sets(3, 15) },
+              { name: 'Tríceps Pulley', sets: sets(3, 12) },
+            ],
+          },
+          {
+            name: 'Pull',
+            exercises: [
+              { name: 'Remada Curvada com Barra', sets: sets(4, 6) },
+              { name: 'Puxada Frontal', sets: sets(3, 10) },
+              { name: 'Rosca Direta com Barra', sets: sets(3, 12) },
+            ],
+          },
+          {
+            name: 'Legs',
+            exercises: [
+              { name: 'Agachamento Livre', sets: sets(4, 6), increment: 5 },
+              { name: 'Levantamento Terra Romeno', sets: sets(3, 8) },
+              { name: 'Leg Press 45°', sets: sets(3, 12) },
+              { name: 'Mesa Flexora', sets: sets(3, 12) },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+];
+
+/** A single-week program with one day per template, each set at 100% of the training max. */
+export const programFromTemplates = (name: string, templates: TemplatePayload[]): Program => ({
+  id: crypto.randomUUID(),
+  name,
+  notes: '',
+  progression: 'session',
+  increment: 2.5,
+  deload_after: 3,
+  deload_percent: 10,
+  weeks: [
+    {
+      days: templates.map((template) => ({
+        name: template.name,
+        exercises: template.exercises.map((ex) => ({
+          name: ex.name,
+          sets: sets(Math.max(ex.target_sets, 1), ex.target_reps),
+        })),
+      })),
+    },
+  ],
+});
+
+/** Every distinct exercise of a program, in order of first appearance. */
+export const programExercises = (program: Program) => {
+  const names = new Map<string, string>();
+  program.weeks.forEach((week) =>
+    week.days.forEach((day) =>
+      day.exercises.forEach((ex) => {
+        const key = normalizeExerciseName(ex.name);
+        if (!names.has(key)) names.set(key, ex.name);
+      })
+    )
+  );
+  return [...names.values()];
+};
+
+export const programDay = (program: Program, week: number, day: number): ProgramDay | undefined =>
+  program.weeks[week - 1]?.days[day - 1];
+
+/** "Semana 2 · Supino" for multi-week programs, just the day name otherwise. */
+export const programDayLabel = (program: Program, week: number, day: number) => {
+  const name = programDay(program, week, day)?.name ?? `Dia ${day}`;
+  return program.weeks.length > 1 ? `Semana ${week} · ${name}` : name;
+};
+
+const LOAD_STEP: Record<WeightUnit, number> = { kg: 2.5, lb: 5 };
+
+/** Kilograms for `percent` of a training max, rounded to a loadable step in `unit`. */
+export const prescribedWeight = (trainingMax: number, percent: number, unit: WeightUnit) =>
+  fromUnit(roundTo(toUnit((trainingMax * percent) / 100, unit), LOAD_STEP[unit]), unit);
+
+/**
+ * Exercises for the day an enrollment is due, loaded from the current
+ * training maxes. Returns null once the program has no such day, e.g.
+ * after it was edited down.
+ */
+export const programWorkout = (
+  { enrollment, program, lifts }: EnrollmentState,
+  unit: WeightUnit,
+  catalog: CatalogEntry[] = []
+): { name: string; exercises: WorkoutExercise[] } | null => {
+  const day = programDay(program, enrollment.week, enrollment.day);
+  if (!day) return null;
+
+  const maxes = new Map(lifts.map((lift) => [lift.name, lift.training_max]));
+
+  return {
+    name: `${program.name} · ${programDayLabel(program, enrollment.week, enrollment.day)}`,
+    exercises: day.exercises.map((ex) => {
+      const match = findCatalogMatch(catalog, ex.name);
+      const trainingMax = maxes.get(normalizeExerciseName(ex.name)) ?? 0;
+      return {
+        id: crypto.randomUUID(),
+        name: ex.name,
+        exercise_catalog_id: match?.id ?? null,
+        kind: match?.default_kind ?? 'strength',
+        group_id: null,
+        group_type: null,
+        weight_unit: null,
+        notes: ex.sets.some((set) => set.amrap) ? 'Última série: máximo de repetições' : '',
+        sets: ex.sets.map((set) =>
+          createSet({ reps: set.reps, weight: prescribedWeight(trainingMax, set.percent, unit) })
+        ),
+      };
+    }),
+  };
+};
+
+const programFromRow = (row: Tables<'programs'>): Program => ({
+  id: row.id,
+  name: row.name,
+  notes: row.notes || '',
+  weeks: (row.definition as { weeks?: ProgramWeek[] } | null)?.weeks ?? [],
+  progression: row.progression as Progression,
+  increment: row.increment,
+  deload_after: row.deload_after,
+  deload_percent: row.deload_percent,
+});
+
+export const fetchPrograms = async () => {
+  const { data, error } = await supabase.from('programs').select('*').order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(programFromRow);
+};
+
+export const saveProgram = async (userId: string, { weeks, ...program }: Program) => {
+  const { error } = await supabase.from('programs').upsert({
+    ...program,
+    user_id: userId,
+    definition: { weeks } as unknown as Json,
+  });
+  if (error) throw error;
+};
+
+/** The active enrollment, or the one with `id` when given. */
+export const fetchEnrollment = async (id?: string): Promise<EnrollmentState | null> => {
+  let query = supabase.from('program_enrollments').select('*, programs(*), program_lifts(*)');
+  query = id ? query.eq('id', id) : query.eq('active', true);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+  if (!data || !data.programs) return null;
+
+  return {
+    enrollment: {
+      id: data.id,
+      program_id: data.program_id,
+      cycle: data.cycle,
+      week: data.week,
+      day: data.day,
+      started_on: data.started_on,
+    },
+    program: programFromRow(data.programs),
+    lifts: data.program_lifts.map(({ name, training_max, failures }) => ({
+      name,
+      training_max,
+      failures,
+    })),
+  };
+};
+
+/** Starts `programId` from day 1, ending the active program. Training maxes are in kilograms. */
+export const enrollProgram = async (
+  programId: string,
+  lifts: { name: string; training_max: number }[]
+) => {
+  const { data, error } = await supabase.rpc('enroll_program', {
+    p_program_id: programId,
+    p_lifts: lifts as unknown as Json,
+  });
+  if (error) throw error;
+  return data;
+};
+
+export const endEnrollment = async (id: string) => {
+  const { error } = await supabase.from('program_enrollments').update({ active: false }).eq('id', id);
+  if (error) throw error;
+};
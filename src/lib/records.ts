@@ -0,0 +1,81 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { DEFAULT_FORMULA, effortRpe, estimateOneRepMax, type OneRepMaxFormula } from '@/lib/strength';
+import { formatWeight, type WeightUnit } from '@/lib/units';
+
+export type PersonalRecord = Tables<'personal_records'>;
+
+export type RecordType = 'weight' | 'reps' | 'e1rm' | 'volume';
+
+export const RECORD_TYPE_LABELS: Record<RecordType, string> = {
+  weight: 'Carga',
+  reps: 'Repetições',
+  e1rm: '1RM estimado',
+  volume: 'Volume',
+};
+
+/** Records set by one workout; computed server-side whenever it is saved. */
+export const fetchWorkoutRecords = async (workoutId: string) => {
+  const { data, error } = await supabase
+    .from('personal_records')
+    .select('*')
+    .eq('workout_id', workoutId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchRecentRecords = async (limit = 5) => {
+  const { data, error } = await supabase
+    .from('personal_records')
+    .select('*')
+    .order('achieved_on', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * "100 kg × 5", "8 reps com 60 kg", "1RM est. 117 kg" or "Volume 2.400 kg".
+ * Records are detected with effort-adjusted Epley; the e1RM shown is
+ * recomputed from the set and its RPE/RIR with the user's formula so it
+ * matches the other screens.
+ */
+export const describeRecord = (
+  record: PersonalRecord,
+  formula: OneRepMaxFormula = DEFAULT_FORMULA,
+  unit: WeightUnit = 'kg'
+) => {
+  switch (record.record_type as RecordType) {
+    case 'weight':
+      return `${formatWeight(record.weight ?? 0, unit)} × ${record.reps}`;
+    case 'reps':
+      return `${record.reps} reps com ${formatWeight(record.weight ?? 0, unit)}`;
+    case 'e1rm':
+      return `1RM est. ${formatWeight(
+        estimateOneRepMax(record.weight ?? 0, record.reps ?? 0, formula, effortRpe(record.rpe, record.rir)),
+        unit
+      )}`;
+    case 'volume':
+      return `Volume ${formatWeight(record.value, unit)}`;
+    default:
+      return String(record.value);
+  }
+};
+
+/** Grouped by exercise, e.g. "Supino reto: 100 kg × 5, 1RM est. 117 kg; Remada: ...". */
+export const summarizeRecords = (
+  records: PersonalRecord[],
+  formula: OneRepMaxFormula = DEFAULT_FORMULA,
+  unit: WeightUnit = 'kg'
+) => {
+  const byExercise = new Map<string, string[]>();
+  records.forEach((record) => {
+    const lines = byExercise.get(record.exercise_name) ?? [];
+    lines.push(describeRecord(record, formula, unit));
+    byExercise.set(record.exercise_name, lines);
+  });
+  return Array.from(byExercise, ([name, lines]) => `${name}: ${lines.join(', ')}`).join('; ');
+};
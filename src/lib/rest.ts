@@ -0,0 +1,67 @@
+import { normalizeExerciseName } from '@/lib/history';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+export const DEFAULT_REST_SECONDS = 90;
+export const REST_STEP_SECONDS = 15;
+export const REST_OPTIONS = [30, 45, 60, 90, 120, 150, 180, 240, 300];
+
+const DEFAULTS_KEY = 'fittrack:rest-defaults';
+const TIMER_KEY = 'fittrack:rest-timer';
+
+export interface RestTimerState {
+  /** Epoch ms when the rest is over; remaining time is always derived from it. */
+  endsAt: number;
+  duration: number;
+  exerciseName: string;
+}
+
+/** Rest durations are remembered per exercise name on this device. */
+export const getRestDefault = (exerciseName: string) =>
+  readJSON<Record<string, number>>(DEFAULTS_KEY)?.[normalizeExerciseName(exerciseName)] ??
+  DEFAULT_REST_SECONDS;
+
+export const setRestDefault = (exerciseName: string, seconds: number) => {
+  const defaults = readJSON<Record<string, number>>(DEFAULTS_KEY) ?? {};
+  defaults[normalizeExerciseName(exerciseName)] = seconds;
+  writeJSON(DEFAULTS_KEY, defaults);
+};
+
+// Persisted so a reload or an OS-killed tab picks the countdown back up
+export const loadRestTimer = () => readJSON<RestTimerState>(TIMER_KEY);
+
+export const saveRestTimer = (timer: RestTimerState | null) => writeJSON(TIMER_KEY, timer);
+
+export const formatDuration = (seconds: number) => {
+  const total = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Browsers only allow audio after a user gesture, so this is called when the
+ * timer is started from a tap and the context is reused for the cue later.
+ */
+export const unlockAudio = () => {
+  if (typeof AudioContext === 'undefined') return;
+  audioContext ??= new AudioContext();
+  if (audioContext.state === 'suspended') audioContext.resume();
+};
+
+/** Three short beeps plus a vibration where supported. */
+export const playRestCue = () => {
+  navigator.vibrate?.([200, 100, 200, 100, 400]);
+
+  if (!audioContext) return;
+  const start = audioContext.currentTime;
+  [0, 0.25, 0.5].forEach((offset) => {
+    const oscillator = audioContext!.createOscillator();
+    const gain = audioContext!.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.2, start + offset);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + offset + 0.2);
+    oscillator.connect(gain).connect(audioContext!.destination);
+    oscillator.start(start + offset);
+    oscillator.stop(start + offset + 0.2);
+  });
+};
@@ -0,0 +1,21 @@
+/** Whole seconds between two ISO timestamps, or null when either is missing. */
+export const sessionSeconds = (startedAt: string | null, endedAt: string | null) => {
+  if (!startedAt || !endedAt) return null;
+  return Math.max(0, Math.round((Date.parse(endedAt) - Date.parse(startedAt)) / 1000));
+};
+
+/** Running clock, "12:34" or "1:02:03". */
+export const formatElapsed = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = String(Math.floor((total % 3600) / 60)).padStart(hours > 0 ? 2 : 1, '0');
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${secs}` : `${minutes}:${secs}`;
+};
+
+/** Finished session length, "45min" or "1h 05min". */
+export const formatSessionLength = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}min`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}min`;
+};
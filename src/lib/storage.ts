@@ -0,0 +1,18 @@
+/** Parsed localStorage value, or null when missing or unreadable. */
+export const readJSON = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Stores `value` as JSON; null removes the key. */
+export const writeJSON = (key: string, value: unknown) => {
+  if (value === null) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, JSON.stringify(value));
+  }
+};
@@ -0,0 +1,109 @@
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'lombardi' | 'rpe';
+
+export const DEFAULT_FORMULA: OneRepMaxFormula = 'epley';
+
+export const FORMULA_LABELS: Record<OneRepMaxFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+  lombardi: 'Lombardi',
+  rpe: 'Tabela RPE',
+};
+
+/**
+ * Percentage of 1RM from the RTS chart. Each half point of RPE below 10
+ * shifts one column, so the whole chart is a single sequence indexed by
+ * 2 × (reps - 1) + 2 × (10 - RPE), covering 1–12 reps at RPE 6–10.
+ */
+const RPE_PERCENTAGES = [
+  100, 97.8, 95.5, 93.9, 92.2, 90.7, 89.2, 87.8, 86.3, 85.0, 83.7, 82.4, 81.1, 79.9, 78.6, 77.4,
+  76.2, 75.1, 73.9, 72.3, 70.7, 69.4, 68.0, 66.7, 65.3, 64.0, 62.6, 61.3, 59.9, 58.6, 57.4,
+];
+
+const MAX_RPE_REPS = 12;
+const MIN_RPE = 6;
+
+/** Share of 1RM (0–1) lifted for `reps` at `rpe`; a missing RPE means an all-out set. */
+export const rpePercentage = (reps: number, rpe = 10) => {
+  const clampedRpe = Math.min(Math.max(Math.round(rpe * 2) / 2, MIN_RPE), 10);
+  const index = 2 * (reps - 1) + 2 * (10 - clampedRpe);
+  return RPE_PERCENTAGES[index] / 100;
+};
+
+/** RPE of a set logged with either scale; RIR 2 is RPE 8. */
+export const effortRpe = (rpe?: number | null, rir?: number | null) =>
+  rpe ?? (rir != null ? Math.max(10 - rir, 0) : null);
+
+const epley = (weight: number, reps: number) => weight * (1 + reps / 30);
+
+/**
+ * Estimated one-rep max for a set. One rep is always the weight itself.
+ * A logged RPE makes the estimate effort-adjusted: the RPE chart reads it
+ * directly, and the rep formulas count reps in reserve as extra reps.
+ * Brzycki diverges past 36 reps and the RPE chart stops at 12, so both fall
+ * back to Epley.
+ */
+export const estimateOneRepMax = (
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = DEFAULT_FORMULA,
+  rpe?: number | null
+) => {
+  if (weight <= 0 || reps <= 0) return 0;
+  if (reps === 1 && (rpe == null || rpe >= 10)) return weight;
+
+  const repsToFailure = reps + (10 - (rpe ?? 10));
+  switch (formula) {
+    case 'brzycki':
+      return repsToFailure < 37 ? (weight * 36) / (37 - repsToFailure) : epley(weight, repsToFailure);
+    case 'lombardi':
+      return weight * repsToFailure ** 0.1;
+    case 'rpe':
+      return reps <= MAX_RPE_REPS
+        ? weight / rpePercentage(reps, rpe ?? 10)
+        : epley(weight, repsToFailure);
+    default:
+      return epley(weight, repsToFailure);
+  }
+};
+
+/** Inverse of `estimateOneRepMax`: reps to failure at `percent` (0–1) of 1RM. */
+export const repsAtPercentage = (percent: number, formula: OneRepMaxFormula = DEFAULT_FORMULA) => {
+  if (percent >= 1) return 1;
+
+  switch (formula) {
+    case 'brzycki':
+      return Math.max(1, Math.round(37 - 36 * percent));
+    case 'lombardi':
+      return Math.max(1, Math.round(percent ** -10));
+    case 'rpe': {
+      if (percent < rpePercentage(MAX_RPE_REPS)) return Math.round(30 * (1 / percent - 1));
+      let reps = 1;
+      while (reps < MAX_RPE_REPS && rpePercentage(reps + 1) >= percent) reps++;
+      return reps;
+    }
+    default:
+      return Math.max(1, Math.round(30 * (1 / percent - 1)));
+  }
+};
+
+export const PERCENTAGES = [100, 95, 90, 85, 80, 75, 70, 65, 60, 55, 50];
+
+export interface PercentageRow {
+  percent: number;
+  weight: number;
+  reps: number;
+}
+
+/** Working weights for common %1RM targets, with the reps each allows. */
+export const percentageTable = (
+  oneRepMax: number,
+  formula: OneRepMaxFormula = DEFAULT_FORMULA,
+  percentages = PERCENTAGES
+): PercentageRow[] =>
+  percentages.map((percent) => ({
+    percent,
+    weight: roundTo(oneRepMax * (percent / 100), 0.5),
+    reps: repsAtPercentage(percent / 100, formula),
+  }));
+
+export const roundTo = (value: number, step = 0.1) => Math.round(value / step) / (1 / step);
@@ -0,0 +1,120 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { findCatalogMatch, type CatalogEntry } from '@/lib/catalog';
+import { createSet, type WorkoutExercise } from '@/lib/workout';
+
+export interface TemplateExercise {
+  id: string;
+  name: string;
+  notes: string;
+  target_sets: number;
+  target_reps: number;
+  target_weight: number;
+}
+
+/** Body of the `save_template` RPC. */
+export interface TemplatePayload {
+  id: string;
+  name: string;
+  notes: string;
+  exercises: TemplateExercise[];
+}
+
+export const createTemplateExercise = (): TemplateExercise => ({
+  id: crypto.randomUUID(),
+  name: '',
+  notes: '',
+  target_sets: 3,
+  target_reps: 10,
+  target_weight: 0,
+});
+
+export const saveTemplate = async (payload: TemplatePayload) => {
+  const { error } = await supabase.rpc('save_template', {
+    payload: payload as unknown as Json,
+  });
+  if (error) throw error;
+};
+
+export const fetchTemplates = async () => {
+  const { data, error } = await supabase
+    .from('workout_templates')
+    .select('*, template_exercises(*)')
+    .order('name')
+    .order('position', { referencedTable: 'template_exercises' });
+
+  if (error) throw error;
+
+  return (data || []).map(
+    (template): TemplatePayload => ({
+      id: template.id,
+      name: template.name,
+      notes: template.notes || '',
+      exercises: template.template_exercises.map((ex) => ({
+        id: ex.id,
+        name: ex.name,
+        notes: ex.notes || '',
+        target_sets: ex.target_sets,
+        target_reps: ex.target_reps,
+        target_weight: ex.target_weight ?? 0,
+      })),
+    })
+  );
+};
+
+/**
+ * Expands each template exercise into `target_sets` editable sets. Templates
+ * only store names, so the catalog supplies the link and the exercise kind.
+ */
+export const exercisesFromTemplate = (
+  template: TemplatePayload,
+  catalog: CatalogEntry[] = []
+): WorkoutExercise[] =>
+  template.exercises.map((ex) => {
+    const match = findCatalogMatch(catalog, ex.name);
+    return {
+      id: crypto.randomUUID(),
+      name: ex.name,
+      exercise_catalog_id: match?.id ?? null,
+      kind: match?.default_kind ?? 'strength',
+      group_id: null,
+      group_type: null,
+      weight_unit: null,
+      notes: ex.notes,
+      sets: Array.from({ length: Math.max(ex.target_sets, 1) }, () =>
+        createSet({ reps: ex.target_reps, weight: ex.target_weight })
+      ),
+    };
+  });
+
+interface LoggedExercise {
+  name: string;
+  notes: string | null;
+  sets: { reps: number; weight: number | null; set_type: string }[];
+}
+
+/**
+ * Turns a logged workout into a template. Warm-ups are left out and the
+ * heaviest working set becomes the target.
+ */
+export const templateFromWorkout = (
+  name: string,
+  notes: string | null,
+  exercises: LoggedExercise[]
+): TemplatePayload => ({
+  id: crypto.randomUUID(),
+  name,
+  notes: notes || '',
+  exercises: exercises.map((ex) => {
+    const working = ex.sets.filter((set) => set.set_type !== 'warmup');
+    const top = [...working].sort((a, b) => (b.weight ?? 0) - (a.weight ?? 0))[0];
+    return {
+      id: crypto.randomUUID(),
+      name: ex.name,
+      notes: ex.notes || '',
+      target_sets: working.length || ex.sets.length,
+      target_reps: top?.reps ?? 0,
+      target_weight: top?.weight ?? 0,
+    };
+  }),
+});
@@ -0,0 +1,20 @@
+import { roundTo } from '@/lib/strength';
+
+/** Weights are always stored in kilograms; pounds only exist at the edges. */
+export type WeightUnit = 'kg' | 'lb';
+
+export const WEIGHT_UNITS: WeightUnit[] = ['kg', 'lb'];
+
+export const KG_PER_LB = 0.45359237;
+
+/** Stored kilograms in `unit`, to one decimal. */
+export const toUnit = (kg: number, unit: WeightUnit) =>
+  unit === 'lb' ? roundTo(kg / KG_PER_LB) : kg;
+
+/** A weight typed in `unit` back to kilograms, at the precision the database keeps. */
+export const fromUnit = (value: number, unit: WeightUnit) =>
+  unit === 'lb' ? Math.round(value * KG_PER_LB * 100) / 100 : value;
+
+/** "82,5 kg" or "182 lb". */
+export const formatWeight = (kg: number, unit: WeightUnit) =>
+  `${toUnit(kg, unit).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} ${unit}`;
@@ -0,0 +1,352 @@
+import { formatWeight, type WeightUnit } from '@/lib/units';
+
+export type SetType = 'normal' | 'warmup' | 'drop' | 'failure' | 'cluster';
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  normal: 'Normal',
+  warmup: 'Aquecimento',
+  drop: 'Drop set',
+  failure: 'Até a falha',
+  cluster: 'Cluster',
+};
+
+/** Seconds between the mini-sets of a cluster; drop sets follow with no rest at all. */
+export const CLUSTER_REST_SECONDS = 20;
+
+export type GroupType = 'superset' | 'giant_set' | 'circuit';
+
+export const GROUP_TYPE_LABELS: Record<GroupType, string> = {
+  superset: 'Superset',
+  giant_set: 'Giant set',
+  circuit: 'Circuito',
+};
+
+export type ExerciseKind = 'strength' | 'bodyweight' | 'timed' | 'cardio' | 'intervals';
+
+export const EXERCISE_KIND_LABELS: Record<ExerciseKind, string> = {
+  strength: 'Musculação',
+  bodyweight: 'Peso corporal',
+  timed: 'Isometria',
+  cardio: 'Cardio',
+  intervals: 'Intervalado',
+};
+
+export type SetField =
+  | 'reps'
+  | 'weight'
+  | 'duration'
+  | 'distance'
+  | 'calories'
+  | 'incline'
+  | 'effort'
+  | 'tempo';
+
+export const SET_FIELD_LABELS: Record<SetField, string> = {
+  reps: 'Reps',
+  weight: 'Peso',
+  duration: 'Tempo',
+  distance: 'Dist. (km)',
+  calories: 'kcal',
+  incline: 'Incl. (%)',
+  effort: 'RPE',
+  tempo: 'Cadência',
+};
+
+export type EffortScale = 'rpe' | 'rir';
+
+export const EFFORT_SCALE_LABELS: Record<EffortScale, string> = {
+  rpe: 'RPE',
+  rir: 'RIR',
+};
+
+export const RPE_OPTIONS = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+export const RIR_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+/** Columns the editor shows for each kind; an interval is logged as one set per round. */
+export const KIND_FIELDS: Record<ExerciseKind, SetField[]> = {
+  strength: ['reps', 'weight', 'effort', 'tempo'],
+  bodyweight: ['reps', 'weight', 'effort', 'tempo'],
+  timed: ['duration', 'weight', 'effort'],
+  cardio: ['duration', 'distance', 'calories', 'incline'],
+  intervals: ['duration', 'distance', 'calories'],
+};
+
+export interface WorkoutSet {
+  id: string;
+  reps: number;
+  weight: number;
+  completed: boolean;
+  set_type: SetType;
+  duration_seconds: number | null;
+  distance_meters: number | null;
+  calories: number | null;
+  incline: number | null;
+  /** At most one of rpe and rir is set, depending on the scale it was logged with. */
+  rpe: number | null;
+  rir: number | null;
+  tempo: string | null;
+}
+
+type SetValues = Pick<
+  WorkoutSet,
+  'reps' | 'weight' | 'duration_seconds' | 'distance_meters' | 'calories' | 'incline' | 'tempo'
+>;
+
+export const createSet = (previous?: Partial<SetValues>): WorkoutSet => ({
+  id: crypto.randomUUID(),
+  reps: previous?.reps ?? 0,
+  weight: previous?.weight ?? 0,
+  completed: false,
+  set_type: 'normal',
+  duration_seconds: previous?.duration_seconds ?? null,
+  distance_meters: previous?.distance_meters ?? null,
+  calories: previous?.calories ?? null,
+  incline: previous?.incline ?? null,
+  // Effort is rated after each set, so it is never carried over
+  rpe: null,
+  rir: null,
+  tempo: previous?.tempo ?? null,
+});
+
+export interface WorkoutExercise {
+  id: string;
+  name: string;
+  exercise_catalog_id: string | null;
+  kind: ExerciseKind;
+  /** Shared by consecutive exercises done in rotation; null for a standalone exercise. */
+  group_id: string | null;
+  group_type: GroupType | null;
+  /** Unit the weights were entered in when it differs from the user's; stored weights are kg. */
+  weight_unit: WeightUnit | null;
+  sets: WorkoutSet[];
+  notes: string;
+}
+
+/** Outbox entries and drafts stored before kinds and groups existed lack those fields. */
+export const withExerciseDefaults = (exercises: WorkoutExercise[]): WorkoutExercise[] =>
+  exercises.map((ex) => ({
+    ...ex,
+    kind: ex.kind ?? 'strength',
+    group_id: ex.group_id ?? null,
+    group_type: ex.group_type ?? null,
+    weight_unit: ex.weight_unit ?? null,
+  }));
+
+type Groupable = Pick<WorkoutExercise, 'id'> & {
+  group_id: string | null;
+  group_type: string | null;
+};
+
+export interface ExerciseBlock<T extends Groupable> {
+  /** Group id, or the exercise id for a standalone exercise. */
+  key: string;
+  group_type: GroupType | null;
+  /** "A", "B"... in workout order; null for a standalone exercise. */
+  letter: string | null;
+  exercises: T[];
+}
+
+/** Splits a workout into standalone exercises and runs of grouped ones, in order. */
+export const exerciseBlocks = <T extends Groupable>(exercises: T[]): ExerciseBlock<T>[] => {
+  const blocks: ExerciseBlock<T>[] = [];
+
+  exercises.forEach((exercise) => {
+    const last = blocks[blocks.length - 1];
+    if (exercise.group_id && last?.key === exercise.group_id) {
+      last.exercises.push(exercise);
+    } else {
+      blocks.push({
+        key: exercise.group_id ?? exercise.id,
+        group_type: exercise.group_id ? ((exercise.group_type ?? 'superset') as GroupType) : null,
+        letter: null,
+        exercises: [exercise],
+      });
+    }
+  });
+
+  let letters = 0;
+  blocks.forEach((block) => {
+    if (block.group_type) block.letter = String.fromCharCode(65 + letters++);
+  });
+  return blocks;
+};
+
+const groupTypeFor = (size: number, current: GroupType | null): GroupType =>
+  current === 'circuit' ? 'circuit' : size > 2 ? 'giant_set' : 'superset';
+
+/**
+ * Groups only make sense as consecutive runs of two or more exercises: a run
+ * split by a removal or a reorder gets its own id, and leftovers of one are
+ * ungrouped.
+ */
+export const normalizeGroups = (exercises: WorkoutExercise[]): WorkoutExercise[] => {
+  const seen = new Set<string>();
+
+  return exerciseBlocks(exercises).flatMap((block) => {
+    if (!block.group_type) return block.exercises;
+    if (block.exercises.length < 2) {
+      return block.exercises.map((ex) => ({ ...ex, group_id: null, group_type: null }));
+    }
+
+    const groupId = seen.has(block.key) ? crypto.randomUUID() : block.key;
+    seen.add(groupId);
+    return block.exercises.map((ex) => ({ ...ex, group_id: groupId, group_type: block.group_type }));
+  });
+};
+
+/** Joins an exercise (and its group, if any) with the exercise right after it. */
+export const groupWithNext = (exercises: WorkoutExercise[], id: string) => {
+  const index = exercises.findIndex((ex) => ex.id === id);
+  const next = exercises[index + 1];
+  if (index < 0 || !next) return exercises;
+
+  const groupId = exercises[index].group_id ?? crypto.randomUUID();
+  const merged = new Set([exercises[index].group_id, next.group_id].filter(Boolean));
+  const members = exercises.filter(
+    (ex, i) => i === index || i === index + 1 || (ex.group_id && merged.has(ex.group_id))
+  );
+  const groupType = groupTypeFor(members.length, exercises[index].group_type);
+
+  return exercises.map((ex) =>
+    members.includes(ex) ? { ...ex, group_id: groupId, group_type: groupType } : ex
+  );
+};
+
+export const ungroupExercise = (exercises: WorkoutExercise[], id: string) =>
+  normalizeGroups(
+    exercises.map((ex) => (ex.id === id ? { ...ex, group_id: null, group_type: null } : ex))
+  );
+
+/**
+ * A group rests once per round: the rest starts only after every member has
+ * done its set at this position (members with fewer sets are skipped).
+ */
+export const isRoundComplete = (members: WorkoutExercise[], setIndex: number) =>
+  members.every((ex) => !ex.sets[setIndex] || ex.sets[setIndex].completed);
+
+/** The set to do next in a group: round one of every member in order, then round two... */
+export const nextGroupSet = (members: WorkoutExercise[]) => {
+  const rounds = Math.max(0, ...members.map((ex) => ex.sets.length));
+  for (let round = 0; round < rounds; round++) {
+    const exercise = members.find((ex) => ex.sets[round] && !ex.sets[round].completed);
+    if (exercise) return { exerciseId: exercise.id, setId: exercise.sets[round].id };
+  }
+  return null;
+};
+
+/** Program day a workout was generated from, see `programWorkout`. */
+export interface ProgramRef {
+  enrollment_id: string;
+  program_week: number;
+  program_day: number;
+}
+
+/** Body of the `save_workout` RPC; ids are generated client-side so retries are idempotent. */
+export interface WorkoutPayload {
+  id: string;
+  name: string;
+  notes: string;
+  /** Calendar day in the user's timezone, yyyy-MM-dd; absent on payloads queued before backdating. */
+  date?: string;
+  /**
+   * ISO timestamps of the session: a live one has no end yet, and both are
+   * null for workouts logged after the fact without times.
+   */
+  started_at: string | null;
+  ended_at: string | null;
+  exercises: WorkoutExercise[];
+  // Absent on drafts saved before programs and plans existed
+  enrollment_id?: string | null;
+  program_week?: number | null;
+  program_day?: number | null;
+  /** Plan the workout was started from; saving marks it done. */
+  planned_workout_id?: string | null;
+}
+
+export const programRefOf = ({
+  enrollment_id,
+  program_week,
+  program_day,
+}: Pick<WorkoutPayload, 'enrollment_id' | 'program_week' | 'program_day'>): ProgramRef | null =>
+  enrollment_id && program_week && program_day
+    ? { enrollment_id, program_week, program_day }
+    : null;
+
+/** "30:00" or "1:05:00" from seconds. */
+export const formatClock = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(Math.round(seconds % 60)).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+/** Accepts "90", "1:30" or "1:05:00"; null when blank or malformed. */
+export const parseClock = (value: string) => {
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) return null;
+  return parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+};
+
+/** Minutes per km, "5:30 /km"; null without both duration and distance. */
+export const formatPace = (durationSeconds: number | null, distanceMeters: number | null) => {
+  if (!durationSeconds || !distanceMeters) return null;
+  return `${formatClock(Math.round(durationSeconds / (distanceMeters / 1000)))} /km`;
+};
+
+export const formatDistance = (meters: number) =>
+  meters >= 1000
+    ? `${(meters / 1000).toLocaleString('pt-BR', { maximumFractionDigits: 2 })} km`
+    : `${Math.round(meters)} m`;
+
+/**
+ * "3-1-X-0" from "31X0", "3 1 x 0" or "3-1-x-0"; null when it is not four
+ * phases of seconds (or X for explosive).
+ */
+export const normalizeTempo = (value: string | null) => {
+  if (!value) return null;
+  const compact = value.trim().toUpperCase();
+  const phases = /^[0-9X]{4}$/.test(compact) ? compact.split('') : compact.split(/[\s-]+/);
+  return phases.length === 4 && phases.every((phase) => /^([0-9]{1,2}|X)$/.test(phase))
+    ? phases.join('-')
+    : null;
+};
+
+/** "RPE 8" or "RIR 2"; null when no effort was logged. */
+export const describeEffort = (set: { rpe?: number | null; rir?: number | null }) => {
+  if (set.rpe != null) return `RPE ${set.rpe.toLocaleString('pt-BR')}`;
+  if (set.rir != null) return `RIR ${set.rir}`;
+  return null;
+};
+
+type LoggedSet = Partial<SetValues> & Pick<WorkoutSet, 'reps'> & { weight: number | null };
+
+/** One logged set in words, with the fields that matter for the exercise kind. */
+export const describeSet = (
+  set: LoggedSet,
+  kind: ExerciseKind = 'strength',
+  unit: WeightUnit = 'kg'
+) => {
+  const weight = set.weight ?? 0;
+
+  switch (kind) {
+    case 'bodyweight':
+      return weight > 0 ? `${set.reps} reps (+${formatWeight(weight, unit)})` : `${set.reps} reps`;
+    case 'timed': {
+      const time = formatClock(set.duration_seconds ?? 0);
+      return weight > 0 ? `${time} (+${formatWeight(weight, unit)})` : time;
+    }
+    case 'cardio':
+    case 'intervals':
+      return [
+        set.duration_seconds ? formatClock(set.duration_seconds) : null,
+        set.distance_meters ? formatDistance(set.distance_meters) : null,
+        formatPace(set.duration_seconds ?? null, set.distance_meters ?? null),
+        set.calories ? `${set.calories} kcal` : null,
+        set.incline ? `${set.incline}% incl.` : null,
+      ]
+        .filter(Boolean)
+        .join(' · ');
+    default:
+      return `${set.reps} reps × ${formatWeight(weight, unit)}`;
+  }
+};
@@ -0,0 +1,292 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { addDays, format, subWeeks } from 'date-fns';
+import { ArrowLeft, BarChart3, Link2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useExerciseCatalog, useExerciseCatalogQuery } from '@/hooks/use-exercise-catalog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchTrainingVolume,
+  TARGET_STATUS_LABELS,
+  targetStatus,
+  weekOf,
+  WEEKLY_SET_TARGET,
+  type TargetStatus,
+  type TrainingVolume,
+} from '@/lib/analytics';
+import { MUSCLE_LABELS, type MuscleGroup } from '@/lib/catalog';
+import { parseDateKey, todayIn, toDateKey } from '@/lib/dates';
+import { roundTo } from '@/lib/strength';
+import { toUnit } from '@/lib/units';
+
+type Range = '4' | '8' | '12';
+
+const RANGE_LABELS: Record<Range, string> = {
+  '4': '4 sem',
+  '8': '8 sem',
+  '12': '12 sem',
+};
+
+// Either one week (its yyyy-MM-dd start) or the weekly average over the range
+const AVERAGE = 'average';
+
+const MUSCLES = Object.keys(MUSCLE_LABELS) as MuscleGroup[];
+
+const setsConfig = {
+  below: { label: TARGET_STATUS_LABELS.below, color: 'hsl(var(--destructive))' },
+  within: { label: TARGET_STATUS_LABELS.within, color: 'hsl(var(--primary))' },
+  above: { label: TARGET_STATUS_LABELS.above, color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const tonnageConfig = {
+  tonnage: { label: 'Tonelagem', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const Analytics = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { preferences } = usePreferences();
+  const catalog = useExerciseCatalog();
+  const { isPending: catalogPending, error: catalogError } = useExerciseCatalogQuery();
+  const [range, setRange] = useState<Range>('4');
+  const [week, setWeek] = useState<string>(AVERAGE);
+  const [muscle, setMuscle] = useState<MuscleGroup | 'all'>('all');
+  const [volume, setVolume] = useState<TrainingVolume>({ weeks: [], unmapped: [] });
+  const [loading, setLoading] = useState(true);
+
+  // Every week of the range, oldest first, including ones without training
+  const weeks = useMemo(() => {
+    const current = parseDateKey(weekOf(todayIn(preferences.timezone), preferences.weekStart));
+    const count = Number(range);
+    return Array.from({ length: count }, (_, index) => toDateKey(subWeeks(current, count - 1 - index)));
+  }, [range, preferences.timezone, preferences.weekStart]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    // Mapped exercises need the catalog for their muscles; without it every exercise is unmapped
+    if (catalogPending) return;
+    if (catalogError) {
+      toast({
+        title: 'Erro ao carregar exercícios',
+        description: catalogError.message,
+        variant: 'destructive',
+      });
+    }
+    fetchVolume();
+  }, [user, navigate, weeks, catalog, catalogPending, catalogError]);
+
+  const fetchVolume = async () => {
+    try {
+      setVolume(await fetchTrainingVolume(weeks[0], catalog, preferences.weekStart));
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar análise',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unit = preferences.weightUnit;
+
+  const setsRows = useMemo(() => {
+    const shown = week === AVERAGE ? volume.weeks : volume.weeks.filter((w) => w.week === week);
+    const divisor = week === AVERAGE ? weeks.length : 1;
+    return MUSCLES.map((key) => {
+      const sets = roundTo(
+        shown.reduce((total, w) => total + (w.muscles[key]?.sets ?? 0), 0) / divisor,
+        0.5
+      );
+      return { muscle: key, label: MUSCLE_LABELS[key], sets, status: targetStatus(sets) };
+    });
+  }, [volume, week, weeks]);
+
+  const tonnageRows = useMemo(
+    () =>
+      weeks.map((key) => {
+        const weekVolume = volume.weeks.find((w) => w.week === key);
+        const tonnage =
+          (muscle === 'all' ? weekVolume?.tonnage : weekVolume?.muscles[muscle]?.tonnage) ?? 0;
+        return { label: format(parseDateKey(key), 'dd/MM'), tonnage: Math.round(toUnit(tonnage, unit)) };
+      }),
+    [volume, weeks, muscle, unit]
+  );
+
+  const below = setsRows.filter((row) => row.status === 'below');
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Carregando...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-background">
+      <div className="max-w-4xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-4 mb-6"
+        >
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-xl">
+              <BarChart3 className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="text-3xl font-bold">Volume por Músculo</h1>
+          </div>
+        </motion.div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <ToggleGroup
+            type="single"
+            value={range}
+            onValueChange={(value) => {
+              if (!value) return;
+              setRange(value as Range);
+              setWeek(AVERAGE);
+            }}
+            className="justify-start"
+          >
+            {(Object.keys(RANGE_LABELS) as Range[]).map((key) => (
+              <ToggleGroupItem key={key} value={key} size="sm">
+                {RANGE_LABELS[key]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <Select value={week} onValueChange={setWeek}>
+            <SelectTrigger className="w-52 bg-secondary/50 border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AVERAGE}>Média semanal</SelectItem>
+              {[...weeks].reverse().map((key) => (
+                <SelectItem key={key} value={key}>
+                  Semana de {format(parseDateKey(key), 'dd/MM')} a{' '}
+                  {format(addDays(parseDateKey(key), 6), 'dd/MM')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+          {volume.unmapped.length > 0 && (
+            <Card className="glass-card p-4 flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {volume.unmapped.length} exercício(s) sem músculos ficaram de fora:{' '}
+                {volume.unmapped.join(', ')}
+              </p>
+              <Button variant="outline" size="sm" onClick={() => navigate('/exercises/map')}>
+                <Link2 className="w-4 h-4 mr-2" />
+                Vincular
+              </Button>
+            </Card>
+          )}
+
+          <Card className="glass-card p-4">
+            <h2 className="font-semibold mb-1">Séries duras por semana</h2>
+            <p className="text-xs text-muted-foreground mb-4">
+              Séries de trabalho concluídas; músculos secundários contam meia série. A faixa destacada é a
+              meta de {WEEKLY_SET_TARGET.min}–{WEEKLY_SET_TARGET.max} séries.
+            </p>
+            <ChartContainer config={setsConfig} className="w-full aspect-auto h-[560px]">
+              <BarChart data={setsRows} layout="vertical" margin={{ left: 0, right: 12 }}>
+                <CartesianGrid horizontal={false} />
+                <ReferenceArea
+                  x1={WEEKLY_SET_TARGET.min}
+                  x2={WEEKLY_SET_TARGET.max}
+                  fill="hsl(var(--primary))"
+                  fillOpacity={0.1}
+                />
+                <XAxis
+                  type="number"
+                  domain={[0, (max: number) => Math.max(max, WEEKLY_SET_TARGET.max + 2)]}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      hideIndicator
+                      formatter={(value, _name, item) =>
+                        `${Number(value).toLocaleString('pt-BR')} séries · ${
+                          TARGET_STATUS_LABELS[(item.payload as { status: TargetStatus }).status]
+                        }`
+                      }
+                    />
+                  }
+                />
+                <Bar dataKey="sets" radius={4}>
+                  {setsRows.map((row) => (
+                    <Cell key={row.muscle} fill={`var(--color-${row.status})`} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+            {below.length > 0 && (
+              <p className="text-sm text-muted-foreground mt-4">
+                Abaixo da meta: {below.map((row) => row.label).join(', ')}
+              </p>
+            )}
+          </Card>
+
+          <Card className="glass-card p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h2 className="font-semibold">Tonelagem semanal ({unit})</h2>
+              <Select value={muscle} onValueChange={(value) => setMuscle(value as MuscleGroup | 'all')}>
+                <SelectTrigger className="w-48 bg-secondary/50 border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os músculos</SelectItem>
+                  {MUSCLES.map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {MUSCLE_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ChartContainer config={tonnageConfig} className="w-full">
+              <BarChart data={tonnageRows} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="tonnage" fill="var(--color-tonnage)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </Card>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -1,12 +1,34 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Dumbbell, Plus, TrendingUp, Calendar, LogOut } from 'lucide-react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { BarChart3, Dumbbell, Plus, TrendingUp, Calendar, LogOut, Weight, Flame, ClipboardList, Trophy, Clock, Play, Trash2, Footprints, CalendarRange, Activity } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import MuscleHeatmap from '@/components/MuscleHeatmap';
+import PendingSyncBadge from '@/components/PendingSyncBadge';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 import { supabase } from '@/integrations/supabase/client';
+import { useExerciseCatalog } from '@/hooks/use-exercise-catalog';
 import { useToast } from '@/hooks/use-toast';
+import { fetchMuscleRecovery, RECOVERY_DAYS, type MuscleRecovery } from '@/lib/analytics';
+import { MUSCLE_LABELS, type MuscleGroup } from '@/lib/catalog';
+import { dateKeyIn, formatDateKey, parseDateKey, todayIn } from '@/lib/dates';
+import { discardDraft, getDrafts, type Draft } from '@/lib/drafts';
+import {
+  describeRecord,
+  fetchRecentRecords,
+  RECORD_TYPE_LABELS,
+  type PersonalRecord,
+  type RecordType,
+} from '@/lib/records';
+import { fetchEnrollment, programDayLabel, type EnrollmentState } from '@/lib/programs';
+import { formatElapsed, formatSessionLength } from '@/lib/session';
+import { formatWeight, WEIGHT_UNITS, type WeightUnit } from '@/lib/units';
+import { formatDistance } from '@/lib/workout';
 
 interface Workout {
   id: string;
@@ -19,14 +41,38 @@ interface Stats {
   totalWorkouts: number;
   thisWeek: number;
   thisMonth: number;
+  totalVolume: number;
+  currentStreak: number;
+  avgDurationSeconds: number | null;
+  cardioSeconds: number;
+  cardioMeters: number;
 }
 
+const daysAgoLabel = (days: number) => (days === 0 ? 'hoje' : days === 1 ? 'ontem' : `há ${days} dias`);
+
 const Dashboard = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { pending, syncVersion, isPending, failure } = useOutbox();
+  const { preferences, updatePreferences } = usePreferences();
   const [workouts, setWorkouts] = useState<Workout[]>([]);
-  const [stats, setStats] = useState<Stats>({ totalWorkouts: 0, thisWeek: 0, thisMonth: 0 });
+  const [records, setRecords] = useState<PersonalRecord[]>([]);
+  const [stats, setStats] = useState<Stats>({
+    totalWorkouts: 0,
+    thisWeek: 0,
+    thisMonth: 0,
+    totalVolume: 0,
+    currentStreak: 0,
+    avgDurationSeconds: null,
+    cardioSeconds: 0,
+    cardioMeters: 0,
+  });
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [program, setProgram] = useState<EnrollmentState | null>(null);
+  const catalog = useExerciseCatalog();
+  const [recovery, setRecovery] = useState<Partial<Record<MuscleGroup, MuscleRecovery>>>({});
+  const [selectedMuscle, setSelectedMuscle] = useState<MuscleGroup | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -35,20 +81,69 @@ const Dashboard = () => {
       return;
     }
     fetchWorkouts();
-  }, [user, navigate]);
+  }, [user, navigate, syncVersion, preferences.timezone, preferences.weekStart]);
+
+  useEffect(() => {
+    if (user) getDrafts(user.id).then(setDrafts, () => setDrafts([]));
+  }, [user]);
+
+  // Refetched after syncs, since saving a program day advances the enrollment
+  useEffect(() => {
+    if (user) fetchEnrollment().then(setProgram, () => setProgram(null));
+  }, [user, syncVersion]);
+
+  // Muscles come from the catalog, so this waits for it
+  useEffect(() => {
+    if (user && catalog.length > 0) {
+      fetchMuscleRecovery(todayIn(preferences.timezone), catalog).then(setRecovery, () => setRecovery({}));
+    }
+  }, [user, syncVersion, catalog, preferences.timezone]);
+
+  const removeDraft = async (id: string) => {
+    try {
+      await discardDraft(id);
+      setDrafts((current) => current.filter((draft) => draft.id !== id));
+    } catch (error) {
+      toast({
+        title: 'Erro ao descartar rascunho',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
 
   const fetchWorkouts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('workouts')
-        .select('*')
-        .order('date', { ascending: false })
-        .limit(5);
+      const [recent, summary, recentRecords] = await Promise.all([
+        supabase
+          .from('workouts')
+          .select('*')
+          .order('date', { ascending: false })
+          .limit(5),
+        supabase
+          .rpc('dashboard_stats', {
+            p_timezone: preferences.timezone,
+            p_week_start: preferences.weekStart,
+          })
+          .single(),
+        fetchRecentRecords(),
+      ]);
 
-      if (error) throw error;
+      if (recent.error) throw recent.error;
+      if (summary.error) throw summary.error;
 
-      setWorkouts(data || []);
-      calculateStats(data || []);
+      setWorkouts(recent.data || []);
+      setRecords(recentRecords);
+      setStats({
+        totalWorkouts: summary.data.total_workouts,
+        thisWeek: summary.data.this_week,
+        thisMonth: summary.data.this_month,
+        totalVolume: summary.data.total_volume,
+        currentStreak: summary.data.current_streak,
+        avgDurationSeconds: summary.data.avg_duration_seconds,
+        cardioSeconds: summary.data.cardio_seconds,
+        cardioMeters: summary.data.cardio_meters,
+      });
     } catch (error: any) {
       toast({
         title: 'Erro ao carregar treinos',
@@ -60,20 +155,18 @@ const Dashboard = () => {
     }
   };
 
-  const calculateStats = (workouts: Workout[]) => {
-    const now = new Date();
-    const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+  const pendingWorkouts: Workout[] = pending
+    .filter((entry) => !workouts.some((w) => w.id === entry.id))
+    .map((entry) => ({
+      id: entry.id,
+      name: entry.payload.name,
+      date: entry.payload.date ?? dateKeyIn(entry.createdAt, preferences.timezone),
+      notes: entry.payload.notes || null,
+    }));
+  const recentWorkouts = [...pendingWorkouts, ...workouts].slice(0, 5);
 
-    const thisWeek = workouts.filter((w) => new Date(w.date) >= weekAgo).length;
-    const thisMonth = workouts.filter((w) => new Date(w.date) >= monthAgo).length;
-
-    setStats({
-      totalWorkouts: workouts.length,
-      thisWeek,
-      thisMonth,
-    });
-  };
+  const today = todayIn(preferences.timezone);
+  const selectedRecovery = selectedMuscle ? recovery[selectedMuscle] : undefined;
 
   const handleLogout = async () => {
     await signOut();
@@ -105,12 +198,82 @@ const Dashboard = () => {
               <p className="text-sm text-muted-foreground">Olá, {user?.email?.split('@')[0]}</p>
             </div>
           </div>
-          <Button variant="ghost" size="icon" onClick={handleLogout}>
-            <LogOut className="w-5 h-5" />
-          </Button>
+          <div className="flex items-center gap-2">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={preferences.weightUnit}
+              onValueChange={(value) => value && updatePreferences({ weightUnit: value as WeightUnit })}
+              title="Unidade de peso"
+            >
+              {WEIGHT_UNITS.map((unit) => (
+                <ToggleGroupItem key={unit} value={unit}>
+                  {unit}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <Button variant="ghost" size="icon" onClick={() => navigate('/analytics')} title="Volume por músculo">
+              <BarChart3 className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={handleLogout}>
+              <LogOut className="w-5 h-5" />
+            </Button>
+          </div>
         </motion.div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        {drafts.length > 0 && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-8 space-y-3">
+            {drafts.map((draft) => (
+              <Card key={draft.id} className="glass-card p-4 border-primary/50 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-semibold truncate">
+                    {draft.payload.started_at && !draft.payload.ended_at ? 'Treino em andamento' : 'Rascunho'}: {draft.payload.name || 'Sem nome'}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {draft.payload.exercises.length} exercícios ·{' '}
+                    {draft.payload.started_at
+                      ? `iniciado há ${formatElapsed((Date.now() - Date.parse(draft.payload.started_at)) / 1000)}`
+                      : `editado em ${format(draft.updatedAt, 'dd/MM HH:mm')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button variant="ghost" size="icon" onClick={() => removeDraft(draft.id)} title="Descartar rascunho">
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                  <Button
+                    onClick={() => navigate(`/workout?draft=${draft.id}`)}
+                    className="bg-primary text-primary-foreground neon-glow"
+                  >
+                    <Play className="w-4 h-4 mr-2" />
+                    Continuar
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </motion.div>
+        )}
+
+        {program && !drafts.some((draft) => draft.payload.enrollment_id === program.enrollment.id) && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+            <Card className="glass-card p-4 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-semibold truncate">{program.program.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  Próximo: {programDayLabel(program.program, program.enrollment.week, program.enrollment.day)}
+                </p>
+              </div>
+              <Button
+                onClick={() => navigate(`/workout?program=${program.enrollment.id}`)}
+                className="bg-primary text-primary-foreground neon-glow shrink-0"
+              >
+                <Play className="w-4 h-4 mr-2" />
+                Treinar
+              </Button>
+            </Card>
+          </motion.div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
           <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
             <Card className="glass-card p-6">
               <div className="flex items-center gap-4">
@@ -152,9 +315,70 @@ const Dashboard = () => {
               </div>
             </Card>
           </motion.div>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.35 }}>
+            <Card className="glass-card p-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-primary/10 rounded-xl">
+                  <Weight className="w-6 h-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Volume Total</p>
+                  <p className="text-2xl font-bold">{formatWeight(stats.totalVolume, preferences.weightUnit)}</p>
+                </div>
+              </div>
+            </Card>
+          </motion.div>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.4 }}>
+            <Card className="glass-card p-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-primary/10 rounded-xl">
+                  <Flame className="w-6 h-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Sequência</p>
+                  <p className="text-2xl font-bold">
+                    {stats.currentStreak} {stats.currentStreak === 1 ? 'semana' : 'semanas'}
+                  </p>
+                </div>
+              </div>
+            </Card>
+          </motion.div>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.45 }}>
+            <Card className="glass-card p-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-primary/10 rounded-xl">
+                  <Clock className="w-6 h-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Duração Média</p>
+                  <p className="text-2xl font-bold">
+                    {stats.avgDurationSeconds !== null ? formatSessionLength(stats.avgDurationSeconds) : '—'}
+                  </p>
+                </div>
+              </div>
+            </Card>
+          </motion.div>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.5 }}>
+            <Card className="glass-card p-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-primary/10 rounded-xl">
+                  <Footprints className="w-6 h-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Cardio</p>
+                  <p className="text-2xl font-bold">{formatDistance(stats.cardioMeters)}</p>
+                  <p className="text-xs text-muted-foreground">{formatSessionLength(stats.cardioSeconds)} no total</p>
+                </div>
+              </div>
+            </Card>
+          </motion.div>
         </div>
 
-        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.4 }}>
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.5 }}>
           <Card className="glass-card p-6">
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-xl font-bold">Treinos Recentes</h2>
@@ -164,7 +388,7 @@ const Dashboard = () => {
               </Button>
             </div>
 
-            {workouts.length === 0 ? (
+            {recentWorkouts.length === 0 ? (
               <div className="text-center py-12">
                 <Dumbbell className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground">Nenhum treino registrado ainda</p>
@@ -174,7 +398,7 @@ const Dashboard = () => {
               </div>
             ) : (
               <div className="space-y-3">
-                {workouts.map((workout) => (
+                {recentWorkouts.map((workout) => (
                   <motion.div
                     key={workout.id}
                     whileHover={{ scale: 1.02 }}
@@ -183,11 +407,14 @@ const Dashboard = () => {
                   >
                     <div className="flex justify-between items-center">
                       <div>
-                        <h3 className="font-semibold">{workout.name}</h3>
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold">{workout.name}</h3>
+                          {isPending(workout.id) && <PendingSyncBadge error={failure(workout.id)} />}
+                        </div>
                         {workout.notes && <p className="text-sm text-muted-foreground">{workout.notes}</p>}
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        {new Date(workout.date).toLocaleDateString('pt-BR')}
+                        {formatDateKey(workout.date)}
                       </p>
                     </div>
                   </motion.div>
@@ -197,7 +424,113 @@ const Dashboard = () => {
           </Card>
         </motion.div>
 
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.55 }} className="mt-8">
+          <Card className="glass-card p-6">
+            <div className="flex items-center gap-2 mb-6">
+              <Activity className="w-5 h-5 text-primary" />
+              <h2 className="text-xl font-bold">Recuperação Muscular</h2>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <MuscleHeatmap
+                load={Object.fromEntries(
+                  Object.entries(recovery).map(([muscle, { load }]) => [muscle, load])
+                )}
+                selected={selectedMuscle}
+                onSelect={(muscle) => setSelectedMuscle((current) => (current === muscle ? null : muscle))}
+              />
+
+              {!selectedMuscle ? (
+                <p className="text-sm text-muted-foreground self-center">
+                  Quanto mais forte a cor, mais recente e pesado foi o treino do músculo nos últimos{' '}
+                  {RECOVERY_DAYS} dias. Toque em um músculo para ver os exercícios.
+                </p>
+              ) : (
+                <div>
+                  <h3 className="font-semibold">{MUSCLE_LABELS[selectedMuscle]}</h3>
+                  {!selectedRecovery ? (
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Não treinado nos últimos {RECOVERY_DAYS} dias
+                    </p>
+                  ) : (
+                    <>
+                      <p className="text-sm text-muted-foreground mb-3">
+                        {selectedRecovery.sets.toLocaleString('pt-BR')} séries duras · último treino{' '}
+                        {daysAgoLabel(
+                          differenceInCalendarDays(parseDateKey(today), parseDateKey(selectedRecovery.lastTrained))
+                        )}
+                      </p>
+                      <div className="space-y-2">
+                        {selectedRecovery.contributions.map((contribution, index) => (
+                          <div
+                            key={`${contribution.workoutId}-${contribution.exercise}-${index}`}
+                            className="p-3 bg-secondary/30 rounded-xl smooth-transition cursor-pointer hover:bg-secondary/50 flex justify-between items-center gap-4"
+                            onClick={() => navigate(`/exercise/${encodeURIComponent(contribution.exercise)}`)}
+                          >
+                            <div>
+                              <p className="font-medium">{contribution.exercise}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {contribution.workoutName} · {formatDateKey(contribution.date)}
+                              </p>
+                            </div>
+                            <p className="text-sm text-muted-foreground whitespace-nowrap">
+                              {contribution.sets.toLocaleString('pt-BR')} séries
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          </Card>
+        </motion.div>
+
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.6 }} className="mt-8">
+          <Card className="glass-card p-6">
+            <div className="flex items-center gap-2 mb-6">
+              <Trophy className="w-5 h-5 text-primary" />
+              <h2 className="text-xl font-bold">Recordes Recentes</h2>
+            </div>
+
+            {records.length === 0 ? (
+              <p className="text-center text-muted-foreground py-6">
+                Seus recordes pessoais aparecerão aqui
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {records.map((record) => (
+                  <div
+                    key={record.id}
+                    className="p-4 bg-secondary/30 rounded-xl smooth-transition cursor-pointer hover:bg-secondary/50 flex justify-between items-center"
+                    onClick={() => navigate(`/exercise/${encodeURIComponent(record.exercise_name)}`)}
+                  >
+                    <div>
+                      <h3 className="font-semibold">{record.exercise_name}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {RECORD_TYPE_LABELS[record.record_type as RecordType]}: {describeRecord(record, preferences.e1rmFormula, preferences.weightUnit)}
+                      </p>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDateKey(record.achieved_on)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        </motion.div>
+
         <div className="fixed bottom-4 right-4 flex gap-2">
+          <Button onClick={() => navigate('/programs')} variant="secondary" size="lg" className="rounded-full shadow-lg">
+            <CalendarRange className="w-5 h-5 mr-2" />
+            Programas
+          </Button>
+          <Button onClick={() => navigate('/templates')} variant="secondary" size="lg" className="rounded-full shadow-lg">
+            <ClipboardList className="w-5 h-5 mr-2" />
+            Modelos
+          </Button>
           <Button onClick={() => navigate('/history')} variant="secondary" size="lg" className="rounded-full shadow-lg">
             <Calendar className="w-5 h-5 mr-2" />
             Histórico
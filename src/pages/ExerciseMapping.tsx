@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Check, Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import CatalogPicker from '@/components/CatalogPicker';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useExerciseCatalog } from '@/hooks/use-exercise-catalog';
+import { useToast } from '@/hooks/use-toast';
+import { searchCatalog, type CatalogEntry } from '@/lib/catalog';
+
+interface UnmappedName {
+  name: string;
+  occurrences: number;
+}
+
+const ExerciseMapping = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const catalog = useExerciseCatalog();
+  const [names, setNames] = useState<UnmappedName[]>([]);
+  const [choices, setChoices] = useState<Record<string, CatalogEntry>>({});
+  const [applying, setApplying] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    fetchNames();
+  }, [user, navigate]);
+
+  const fetchNames = async () => {
+    try {
+      const { data, error } = await supabase.rpc('unmapped_exercise_names');
+
+      if (error) throw error;
+
+      setNames(data || []);
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar exercícios',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Best catalog guess for a free-text name, unless the user picked one
+  const choiceFor = (name: string) => choices[name] ?? searchCatalog(catalog, name, 1)[0] ?? null;
+
+  const applyMapping = async (name: string) => {
+    const entry = choiceFor(name);
+    if (!entry) return;
+
+    setApplying(name);
+
+    try {
+      const { data, error } = await supabase.rpc('map_exercise_name', {
+        p_name: name,
+        p_catalog_id: entry.id,
+      });
+
+      if (error) throw error;
+
+      setNames(names.filter((n) => n.name !== name));
+      toast({
+        title: 'Exercício vinculado',
+        description: `${data} registro(s) de "${name}" agora são "${entry.name}".`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao vincular exercício',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setApplying(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Carregando...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-background">
+      <div className="max-w-4xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-4 mb-8"
+        >
+          <Button variant="ghost" size="icon" onClick={() => navigate('/history')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-xl">
+              <Link2 className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="text-3xl font-bold">Vincular Exercícios</h1>
+          </div>
+        </motion.div>
+
+        <p className="text-muted-foreground mb-6">
+          Exercícios registrados com nomes livres que ainda não estão no catálogo. Ao vincular, todos
+          os registros com o mesmo nome passam a usar o nome do catálogo.
+        </p>
+
+        {names.length === 0 ? (
+          <Card className="glass-card p-12 text-center">
+            <Check className="w-16 h-16 text-primary mx-auto mb-4" />
+            <h2 className="text-xl font-semibold">Todos os exercícios estão vinculados</h2>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {names.map(({ name, occurrences }) => (
+              <Card key={name} className="glass-card p-4">
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-center">
+                  <div>
+                    <p className="font-semibold">{name}</p>
+                    <p className="text-sm text-muted-foreground">{occurrences} registro(s)</p>
+                  </div>
+                  <CatalogPicker
+                    value={choiceFor(name)}
+                    onChange={(entry) => setChoices({ ...choices, [name]: entry })}
+                  />
+                  <Button
+                    onClick={() => applyMapping(name)}
+                    disabled={!choiceFor(name) || applying === name}
+                    className="bg-primary text-primary-foreground"
+                  >
+                    {applying === name ? 'Vinculando...' : 'Vincular'}
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExerciseMapping;
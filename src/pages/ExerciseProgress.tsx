@@ -0,0 +1,322 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format, subMonths, subWeeks, subYears } from 'date-fns';
+import { ArrowLeft, TrendingUp } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useExerciseCatalog, useExerciseCatalogQuery } from '@/hooks/use-exercise-catalog';
+import { useToast } from '@/hooks/use-toast';
+import { formatDateKey, parseDateKey } from '@/lib/dates';
+import {
+  fetchExerciseHistory,
+  sessionMetrics,
+  summarizeSets,
+  type ExerciseSession,
+} from '@/lib/history';
+import {
+  FORMULA_LABELS,
+  percentageTable,
+  roundTo,
+  type OneRepMaxFormula,
+} from '@/lib/strength';
+import { toUnit } from '@/lib/units';
+
+type Range = '4w' | '3m' | '1y' | 'all';
+
+const RANGE_LABELS: Record<Range, string> = {
+  '4w': '4 sem',
+  '3m': '3 meses',
+  '1y': '1 ano',
+  all: 'Tudo',
+};
+
+const rangeStart = (range: Range) => {
+  const now = new Date();
+  switch (range) {
+    case '4w':
+      return format(subWeeks(now, 4), 'yyyy-MM-dd');
+    case '3m':
+      return format(subMonths(now, 3), 'yyyy-MM-dd');
+    case '1y':
+      return format(subYears(now, 1), 'yyyy-MM-dd');
+    default:
+      return undefined;
+  }
+};
+
+const strengthConfig = {
+  topSet: { label: 'Maior carga', color: 'hsl(var(--primary))' },
+  oneRepMax: { label: '1RM estimado', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const effortConfig = {
+  averageRpe: { label: 'RPE médio', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const volumeConfig = {
+  volume: { label: 'Volume', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const ExerciseProgress = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { name = '' } = useParams<{ name: string }>();
+  const { toast } = useToast();
+  const { preferences, updatePreferences } = usePreferences();
+  const catalog = useExerciseCatalog();
+  const { isPending: catalogPending } = useExerciseCatalogQuery();
+  const [range, setRange] = useState<Range>('3m');
+  const [sessions, setSessions] = useState<ExerciseSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    // Aliases share a history through the catalog entry the name resolves to
+    if (catalogPending) return;
+    fetchSessions();
+  }, [user, navigate, name, range, catalog, catalogPending]);
+
+  const fetchSessions = async () => {
+    try {
+      setSessions(await fetchExerciseHistory(name, catalog, rangeStart(range)));
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar progresso',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unit = preferences.weightUnit;
+
+  // Weights are converted once here, so the charts and tables below are all in `unit`
+  const rows = useMemo(
+    () =>
+      sessions.map((session) => {
+        const metrics = sessionMetrics(session.sets, preferences.e1rmFormula);
+        return {
+          ...session,
+          label: format(parseDateKey(session.date), 'dd/MM'),
+          topSet: toUnit(metrics.topSet?.weight ?? 0, unit),
+          topSetReps: metrics.topSet?.reps ?? 0,
+          oneRepMax: roundTo(toUnit(metrics.oneRepMax, unit)),
+          volume: roundTo(toUnit(metrics.volume, unit)),
+          averageRpe: metrics.averageRpe != null ? roundTo(metrics.averageRpe) : null,
+        };
+      }),
+    [sessions, preferences.e1rmFormula, unit]
+  );
+
+  const bestOneRepMax = Math.max(0, ...rows.map((row) => row.oneRepMax));
+  const hasEffort = rows.some((row) => row.averageRpe != null);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Carregando...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-background">
+      <div className="max-w-4xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-4 mb-6"
+        >
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-xl">
+              <TrendingUp className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="text-3xl font-bold">{name}</h1>
+          </div>
+        </motion.div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <ToggleGroup
+            type="single"
+            value={range}
+            onValueChange={(value) => value && setRange(value as Range)}
+            className="justify-start"
+          >
+            {(Object.keys(RANGE_LABELS) as Range[]).map((key) => (
+              <ToggleGroupItem key={key} value={key} size="sm">
+                {RANGE_LABELS[key]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <Select
+            value={preferences.e1rmFormula}
+            onValueChange={(value) => updatePreferences({ e1rmFormula: value as OneRepMaxFormula })}
+          >
+            <SelectTrigger className="w-40 bg-secondary/50 border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FORMULA_LABELS) as OneRepMaxFormula[]).map((formula) => (
+                <SelectItem key={formula} value={formula}>
+                  {FORMULA_LABELS[formula]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {rows.length === 0 ? (
+          <Card className="glass-card p-12 text-center">
+            <p className="text-muted-foreground">Nenhum registro deste exercício no período</p>
+          </Card>
+        ) : (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+            <Card className="glass-card p-4">
+              <h2 className="font-semibold mb-4">Carga e 1RM estimado ({unit})</h2>
+              <ChartContainer config={strengthConfig} className="w-full">
+                <LineChart data={rows} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="topSet" type="monotone" stroke="var(--color-topSet)" strokeWidth={2} dot />
+                  <Line dataKey="oneRepMax" type="monotone" stroke="var(--color-oneRepMax)" strokeWidth={2} dot />
+                </LineChart>
+              </ChartContainer>
+            </Card>
+
+            {hasEffort && (
+              <Card className="glass-card p-4">
+                <h2 className="font-semibold mb-1">Esforço por sessão</h2>
+                <p className="text-xs text-muted-foreground mb-4">
+                  Média das séries avaliadas; sessões sem RPE/RIR ficam de fora.
+                </p>
+                <ChartContainer config={effortConfig} className="w-full">
+                  <LineChart data={rows} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis domain={[6, 10]} tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line
+                      dataKey="averageRpe"
+                      type="monotone"
+                      stroke="var(--color-averageRpe)"
+                      strokeWidth={2}
+                      connectNulls
+                      dot
+                    />
+                  </LineChart>
+                </ChartContainer>
+              </Card>
+            )}
+
+            <Card className="glass-card p-4">
+              <h2 className="font-semibold mb-4">Volume por sessão ({unit})</h2>
+              <ChartContainer config={volumeConfig} className="w-full">
+                <BarChart data={rows} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="volume" fill="var(--color-volume)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </Card>
+
+            <Card className="glass-card p-4">
+              <h2 className="font-semibold mb-4">
+                Percentuais do 1RM ({roundTo(bestOneRepMax)} {unit})
+              </h2>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>%</TableHead>
+                    <TableHead className="text-right">Carga</TableHead>
+                    <TableHead className="text-right">Reps máx.</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {percentageTable(bestOneRepMax, preferences.e1rmFormula).map((row) => (
+                    <TableRow key={row.percent}>
+                      <TableCell>{row.percent}%</TableCell>
+                      <TableCell className="text-right">{row.weight} {unit}</TableCell>
+                      <TableCell className="text-right">{row.reps}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+
+            <Card className="glass-card p-4">
+              <h2 className="font-semibold mb-4">Sessões</h2>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Treino</TableHead>
+                    <TableHead>Séries</TableHead>
+                    <TableHead className="text-right">Maior carga</TableHead>
+                    <TableHead className="text-right">1RM est.</TableHead>
+                    <TableHead className="text-right">RPE méd.</TableHead>
+                    <TableHead className="text-right">Volume</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...rows].reverse().map((row, index) => (
+                    <TableRow key={`${row.workoutId}-${index}`}>
+                      <TableCell>{formatDateKey(row.date)}</TableCell>
+                      <TableCell>{row.workoutName}</TableCell>
+                      <TableCell className="text-muted-foreground">{summarizeSets(row.sets, 'strength', unit)}</TableCell>
+                      <TableCell className="text-right">
+                        {row.topSet} {unit} × {row.topSetReps}
+                      </TableCell>
+                      <TableCell className="text-right">{row.oneRepMax} {unit}</TableCell>
+                      <TableCell className="text-right">
+                        {row.averageRpe != null ? row.averageRpe.toLocaleString('pt-BR') : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{row.volume.toLocaleString('pt-BR')} {unit}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExerciseProgress;
@@ -1,20 +1,70 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Calendar, Dumbbell, ChevronDown, ChevronUp } from 'lucide-react';
+import { ArrowLeft, BarChart3, Calendar, CalendarDays, Dumbbell, ChevronDown, ChevronUp, Pencil, Trash2, ClipboardList, Copy, Link2, Clock, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import PendingSyncBadge from '@/components/PendingSyncBadge';
+import RecordBadge from '@/components/RecordBadge';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { dateKeyIn, formatDateKey } from '@/lib/dates';
+import { sessionMetrics } from '@/lib/history';
+import { discardWorkout } from '@/lib/outbox';
+import type { PersonalRecord } from '@/lib/records';
+import { formatSessionLength, sessionSeconds } from '@/lib/session';
+import { saveTemplate, templateFromWorkout } from '@/lib/templates';
+import { formatWeight, type WeightUnit } from '@/lib/units';
+import {
+  describeEffort,
+  describeSet,
+  exerciseBlocks,
+  GROUP_TYPE_LABELS,
+  SET_TYPE_LABELS,
+  type ExerciseKind,
+  type SetType,
+} from '@/lib/workout';
+
+interface ExerciseSet {
+  id: string;
+  set_number: number;
+  reps: number;
+  weight: number | null;
+  completed: boolean;
+  set_type: string;
+  duration_seconds: number | null;
+  distance_meters: number | null;
+  calories: number | null;
+  incline: number | null;
+  rpe: number | null;
+  rir: number | null;
+  tempo: string | null;
+}
 
 interface Exercise {
   id: string;
   name: string;
-  sets: number;
-  reps: number;
-  weight: number;
+  kind: string;
+  group_id: string | null;
+  group_type: string | null;
+  weight_unit: string | null;
   notes: string | null;
+  exercise_sets: ExerciseSet[];
+  personal_records?: PersonalRecord[];
 }
 
 interface Workout {
@@ -22,16 +72,32 @@ interface Workout {
   name: string;
   date: string;
   notes: string | null;
+  started_at: string | null;
+  ended_at: string | null;
   exercises?: Exercise[];
-  expanded?: boolean;
 }
 
+/** Keyset cursor: dates repeat, so the id breaks ties. */
+interface Cursor {
+  date: string;
+  id: string;
+}
+
+const PAGE_SIZE = 20;
+
 const History = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { pending, syncVersion, isPending, failure, retry } = useOutbox();
+  const { preferences } = usePreferences();
   const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [cursor, setCursor] = useState<Cursor | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (!user) {
@@ -39,33 +105,47 @@ const History = () => {
       return;
     }
     fetchWorkouts();
-  }, [user, navigate]);
+  }, [user, navigate, syncVersion]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) fetchWorkouts(cursor);
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loading, hasMore, loadingMore, cursor]);
+
+  const fetchWorkouts = async (after: Cursor | null = null) => {
+    if (after) setLoadingMore(true);
 
-  const fetchWorkouts = async () => {
     try {
-      const { data: workoutsData, error: workoutsError } = await supabase
-        .from('workouts')
-        .select('*')
-        .order('date', { ascending: false });
-
-      if (workoutsError) throw workoutsError;
-
-      const workoutsWithExercises = await Promise.all(
-        (workoutsData || []).map(async (workout) => {
-          const { data: exercises } = await supabase
-            .from('exercises')
-            .select('*')
-            .eq('workout_id', workout.id);
-
-          return {
-            ...workout,
-            exercises: exercises || [],
-            expanded: false,
-          };
-        })
-      );
+      let query = supabase.from('workouts').select('*, exercises(*, exercise_sets(*), personal_records(*))');
+
+      if (after) {
+        query = query.or(`date.lt.${after.date},and(date.eq.${after.date},id.lt.${after.id})`);
+      }
+
+      const { data, error } = await query
+        .order('date', { ascending: false })
+        .order('id', { ascending: false })
+        .order('position', { referencedTable: 'exercises' })
+        .order('set_number', { referencedTable: 'exercises.exercise_sets' })
+        .limit(PAGE_SIZE);
+
+      if (error) throw error;
 
-      setWorkouts(workoutsWithExercises);
+      const page = data || [];
+      setWorkouts((current) => (after ? [...current, ...page] : page));
+      setHasMore(page.length === PAGE_SIZE);
+
+      const last = page[page.length - 1];
+      setCursor(last ? { date: last.date, id: last.id } : after);
     } catch (error: any) {
       toast({
         title: 'Erro ao carregar histórico',
@@ -74,17 +154,152 @@ const History = () => {
       });
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  const deleteWorkout = async (id: string) => {
+    try {
+      if (isPending(id)) await discardWorkout(id);
+
+      const { error } = await supabase.from('workouts').delete().eq('id', id);
+
+      if (error) throw error;
+
+      setWorkouts(workouts.filter((w) => w.id !== id));
+      toast({ title: 'Treino excluído' });
+    } catch (error) {
+      toast({
+        title: 'Erro ao excluir treino',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const saveAsTemplate = async (workout: Workout) => {
+    try {
+      await saveTemplate(
+        templateFromWorkout(
+          workout.name,
+          workout.notes,
+          (workout.exercises || []).map((ex) => ({ ...ex, sets: ex.exercise_sets }))
+        )
+      );
+      toast({
+        title: 'Modelo criado!',
+        description: `"${workout.name}" está disponível em Modelos.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao criar modelo',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const oneRepMaxOf = (exercise: Exercise) =>
+    sessionMetrics(exercise.exercise_sets, preferences.e1rmFormula).oneRepMax;
+
+  // Shown in the unit the exercise was loaded in
+  const weightUnitOf = (exercise: Exercise) =>
+    (exercise.weight_unit as WeightUnit | null) ?? preferences.weightUnit;
+
+  const renderExercise = (exercise: Exercise) => (
+    <div
+      key={exercise.id}
+      className="p-3 bg-card/50 rounded-lg"
+    >
+      <h4 className="font-semibold mb-2 flex items-center gap-2">
+        <button
+          type="button"
+          className="hover:text-primary transition-colors"
+          onClick={() => navigate(`/exercise/${encodeURIComponent(exercise.name)}`)}
+        >
+          {exercise.name}
+        </button>
+        {exercise.personal_records && exercise.personal_records.length > 0 && (
+          <RecordBadge records={exercise.personal_records} unit={weightUnitOf(exercise)} />
+        )}
+        {oneRepMaxOf(exercise) > 0 && (
+          <span className="ml-auto text-xs font-normal text-muted-foreground">
+            1RM est. {formatWeight(oneRepMaxOf(exercise), weightUnitOf(exercise))}
+          </span>
+        )}
+      </h4>
+      <div className="space-y-1 text-sm">
+        {exercise.exercise_sets.map((set) => (
+          <div
+            key={set.id}
+            className={`flex items-center gap-3 ${set.completed ? '' : 'text-muted-foreground line-through'}`}
+          >
+            <span className="w-6 text-muted-foreground">
+              {set.set_type === 'drop' || set.set_type === 'cluster' ? '↳' : set.set_number}
+            </span>
+            <span className="font-semibold">
+              {describeSet(set, exercise.kind as ExerciseKind, weightUnitOf(exercise))}
+            </span>
+            {set.set_type !== 'normal' && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary">
+                {SET_TYPE_LABELS[set.set_type as SetType] ?? set.set_type}
+              </span>
+            )}
+            {describeEffort(set) && (
+              <span className="text-xs text-muted-foreground">{describeEffort(set)}</span>
+            )}
+            {set.tempo && <span className="text-xs text-muted-foreground">Cadência {set.tempo}</span>}
+          </div>
+        ))}
+      </div>
+      {exercise.notes && (
+        <p className="text-sm text-muted-foreground mt-2">
+          {exercise.notes}
+        </p>
+      )}
+    </div>
+  );
+
   const toggleWorkout = (id: string) => {
-    setWorkouts(
-      workouts.map((w) =>
-        w.id === id ? { ...w, expanded: !w.expanded } : w
-      )
+    setExpandedIds((ids) =>
+      ids.includes(id) ? ids.filter((expandedId) => expandedId !== id) : [...ids, id]
     );
   };
 
+  // Workouts saved offline are shown from their outbox payload until they sync
+  const pendingWorkouts: Workout[] = pending
+    .filter((entry) => !workouts.some((w) => w.id === entry.id))
+    .map((entry) => ({
+      id: entry.id,
+      name: entry.payload.name,
+      date: entry.payload.date ?? dateKeyIn(entry.createdAt, preferences.timezone),
+      notes: entry.payload.notes || null,
+      started_at: entry.payload.started_at,
+      ended_at: entry.payload.ended_at,
+      exercises: entry.payload.exercises.map((ex) => ({
+        id: ex.id,
+        name: ex.name,
+        // Entries queued before exercise kinds existed carry no kind
+        kind: ex.kind ?? 'strength',
+        group_id: ex.group_id ?? null,
+        group_type: ex.group_type ?? null,
+        weight_unit: ex.weight_unit ?? null,
+        notes: ex.notes || null,
+        exercise_sets: ex.sets.map((set, index) => ({
+          duration_seconds: null,
+          distance_meters: null,
+          calories: null,
+          incline: null,
+          rpe: null,
+          rir: null,
+          tempo: null,
+          ...set,
+          set_number: index + 1,
+        })),
+      })),
+    }));
+  const allWorkouts = [...pendingWorkouts, ...workouts];
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -99,20 +314,36 @@ const History = () => {
         <motion.div
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: 1, y: 0 }}
-          className="flex items-center gap-4 mb-8"
+          className="flex items-center justify-between gap-4 mb-8"
         >
-          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
-            <ArrowLeft className="w-5 h-5" />
-          </Button>
-          <div className="flex items-center gap-3">
-            <div className="p-2 bg-primary/10 rounded-xl">
-              <Calendar className="w-6 h-6 text-primary" />
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-primary/10 rounded-xl">
+                <Calendar className="w-6 h-6 text-primary" />
+              </div>
+              <h1 className="text-3xl font-bold">Histórico de Treinos</h1>
             </div>
-            <h1 className="text-3xl font-bold">Histórico de Treinos</h1>
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => navigate('/calendar')}>
+              <CalendarDays className="w-4 h-4 mr-2" />
+              Calendário
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/analytics')}>
+              <BarChart3 className="w-4 h-4 mr-2" />
+              Análise
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/exercises/map')}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Vincular exercícios
+            </Button>
           </div>
         </motion.div>
 
-        {workouts.length === 0 ? (
+        {allWorkouts.length === 0 ? (
           <motion.div
             initial={{ opacity: 0, scale: 0.9 }}
             animate={{ opacity: 1, scale: 1 }}
@@ -131,7 +362,7 @@ const History = () => {
           </motion.div>
         ) : (
           <div className="space-y-4">
-            {workouts.map((workout, index) => (
+            {allWorkouts.map((workout, index) => (
               <motion.div
                 key={workout.id}
                 initial={{ opacity: 0, y: 20 }}
@@ -149,14 +380,23 @@ const History = () => {
                           <Dumbbell className="w-5 h-5 text-primary" />
                         </div>
                         <div>
-                          <h3 className="font-semibold text-lg">{workout.name}</h3>
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-semibold text-lg">{workout.name}</h3>
+                            {isPending(workout.id) && <PendingSyncBadge error={failure(workout.id)} />}
+                          </div>
                           <p className="text-sm text-muted-foreground">
-                            {new Date(workout.date).toLocaleDateString('pt-BR', {
+                            {formatDateKey(workout.date, {
                               weekday: 'long',
                               year: 'numeric',
                               month: 'long',
                               day: 'numeric',
                             })}
+                            {sessionSeconds(workout.started_at, workout.ended_at) !== null && (
+                              <span className="inline-flex items-center gap-1 ml-2">
+                                <Clock className="w-3 h-3" />
+                                {formatSessionLength(sessionSeconds(workout.started_at, workout.ended_at)!)}
+                              </span>
+                            )}
                           </p>
                         </div>
                       </div>
@@ -164,7 +404,7 @@ const History = () => {
                         <span className="text-sm text-muted-foreground">
                           {workout.exercises?.length || 0} exercícios
                         </span>
-                        {workout.expanded ? (
+                        {expandedIds.includes(workout.id) ? (
                           <ChevronUp className="w-5 h-5" />
                         ) : (
                           <ChevronDown className="w-5 h-5" />
@@ -173,7 +413,7 @@ const History = () => {
                     </div>
                   </div>
 
-                  {workout.expanded && (
+                  {expandedIds.includes(workout.id) && (
                     <motion.div
                       initial={{ opacity: 0, height: 0 }}
                       animate={{ opacity: 1, height: 'auto' }}
@@ -189,44 +429,95 @@ const History = () => {
                           </div>
                         )}
                         {workout.exercises && workout.exercises.length > 0 ? (
-                          workout.exercises.map((exercise) => (
-                            <div
-                              key={exercise.id}
-                              className="p-3 bg-card/50 rounded-lg"
-                            >
-                              <h4 className="font-semibold mb-2">{exercise.name}</h4>
-                              <div className="grid grid-cols-3 gap-4 text-sm">
-                                <div>
-                                  <p className="text-muted-foreground">Séries</p>
-                                  <p className="font-semibold">{exercise.sets}</p>
-                                </div>
-                                <div>
-                                  <p className="text-muted-foreground">Reps</p>
-                                  <p className="font-semibold">{exercise.reps}</p>
-                                </div>
-                                <div>
-                                  <p className="text-muted-foreground">Peso</p>
-                                  <p className="font-semibold">{exercise.weight} kg</p>
-                                </div>
-                              </div>
-                              {exercise.notes && (
-                                <p className="text-sm text-muted-foreground mt-2">
-                                  {exercise.notes}
+                          exerciseBlocks(workout.exercises).map((block) =>
+                            block.group_type ? (
+                              <div
+                                key={block.key}
+                                className="rounded-lg border border-primary/40 p-2 space-y-2"
+                              >
+                                <p className="px-1 text-xs font-semibold text-primary">
+                                  {block.letter} · {GROUP_TYPE_LABELS[block.group_type]}
                                 </p>
-                              )}
-                            </div>
-                          ))
+                                {block.exercises.map(renderExercise)}
+                              </div>
+                            ) : (
+                              renderExercise(block.exercises[0])
+                            )
+                          )
                         ) : (
                           <p className="text-sm text-muted-foreground text-center py-4">
                             Nenhum exercício registrado
                           </p>
                         )}
+                        <div className="flex flex-wrap justify-end gap-2 pt-2">
+                          {failure(workout.id) && (
+                            <Button variant="outline" size="sm" onClick={() => retry(workout.id)}>
+                              <RefreshCw className="w-4 h-4 mr-2" />
+                              Tentar novamente
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/workout?from=${workout.id}`)}
+                          >
+                            <Copy className="w-4 h-4 mr-2" />
+                            Repetir
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => saveAsTemplate(workout)}
+                          >
+                            <ClipboardList className="w-4 h-4 mr-2" />
+                            Salvar como modelo
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/workout/${workout.id}`)}
+                          >
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Editar
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm" className="text-destructive">
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Excluir
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Excluir treino?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  "{workout.name}" e todos os seus exercícios serão removidos
+                                  permanentemente.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteWorkout(workout.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Excluir
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
                       </div>
                     </motion.div>
                   )}
                 </Card>
               </motion.div>
             ))}
+            {hasMore && (
+              <div ref={sentinelRef} className="py-4 text-center text-sm text-muted-foreground">
+                {loadingMore && <span className="animate-pulse">Carregando mais treinos...</span>}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,691 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CalendarRange, Layers, Pencil, Play, Plus, Save, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatDateKey } from '@/lib/dates';
+import { normalizeExerciseName } from '@/lib/history';
+import {
+  endEnrollment,
+  enrollProgram,
+  fetchEnrollment,
+  fetchPrograms,
+  PROGRAM_PRESETS,
+  programDayLabel,
+  programExercises,
+  programFromTemplates,
+  PROGRESSION_LABELS,
+  saveProgram,
+  type EnrollmentState,
+  type Program,
+  type Progression,
+} from '@/lib/programs';
+import { fetchTemplates, type TemplatePayload } from '@/lib/templates';
+import { formatWeight, fromUnit, toUnit } from '@/lib/units';
+import { cn } from '@/lib/utils';
+
+const Programs = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { preferences } = usePreferences();
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [templates, setTemplates] = useState<TemplatePayload[]>([]);
+  const [active, setActive] = useState<EnrollmentState | null>(null);
+  const [editing, setEditing] = useState<Program | null>(null);
+  // Program being enrolled in, with the training maxes typed so far (in the user's unit)
+  const [enrolling, setEnrolling] = useState<Program | null>(null);
+  const [trainingMaxes, setTrainingMaxes] = useState<Record<string, number>>({});
+  const [composing, setComposing] = useState(false);
+  const [composeName, setComposeName] = useState('');
+  const [composeIds, setComposeIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const unit = preferences.weightUnit;
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    loadPrograms();
+  }, [user, navigate]);
+
+  const loadPrograms = async () => {
+    try {
+      const [saved, enrollment, savedTemplates] = await Promise.all([
+        fetchPrograms(),
+        fetchEnrollment(),
+        fetchTemplates(),
+      ]);
+      setPrograms(saved);
+      setActive(enrollment);
+      setTemplates(savedTemplates);
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar programas',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitProgram = async (program: Program) => {
+    if (!user) return;
+
+    if (!program.name.trim()) {
+      toast({
+        title: 'Nome do programa obrigatório',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await saveProgram(user.id, { ...program, name: program.name.trim() });
+      toast({ title: 'Programa salvo!' });
+      setEditing(null);
+      loadPrograms();
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar programa',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addPreset = (preset: Omit<Program, 'id'>) =>
+    submitProgram({ ...preset, id: crypto.randomUUID() });
+
+  const composeFromTemplates = () => {
+    const chosen = templates.filter((t) => composeIds.includes(t.id));
+    if (chosen.length === 0) {
+      toast({ title: 'Escolha pelo menos um modelo', variant: 'destructive' });
+      return;
+    }
+    setComposing(false);
+    setComposeIds([]);
+    // Opens the rules editor before anything is saved
+    setEditing(programFromTemplates(composeName.trim(), chosen));
+    setComposeName('');
+  };
+
+  const deleteProgram = async (id: string) => {
+    try {
+      const { error } = await supabase.from('programs').delete().eq('id', id);
+
+      if (error) throw error;
+
+      setPrograms(programs.filter((p) => p.id !== id));
+      if (active?.program.id === id) setActive(null);
+      toast({ title: 'Programa excluído' });
+    } catch (error) {
+      toast({
+        title: 'Erro ao excluir programa',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const startEnrolling = (program: Program) => {
+    setTrainingMaxes({});
+    setEnrolling(program);
+  };
+
+  const submitEnrollment = async () => {
+    if (!enrolling) return;
+
+    setSaving(true);
+
+    try {
+      await enrollProgram(
+        enrolling.id,
+        programExercises(enrolling).map((name) => ({
+          name,
+          training_max: fromUnit(trainingMaxes[name] ?? 0, unit),
+        }))
+      );
+      toast({ title: 'Programa iniciado!' });
+      setEnrolling(null);
+      loadPrograms();
+    } catch (error) {
+      toast({
+        title: 'Erro ao iniciar programa',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const stopProgram = async () => {
+    if (!active) return;
+
+    try {
+      await endEnrollment(active.enrollment.id);
+      setActive(null);
+      toast({ title: 'Programa encerrado' });
+    } catch (error) {
+      toast({
+        title: 'Erro ao encerrar programa',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const describeRules = (program: Program) =>
+    `${PROGRESSION_LABELS[program.progression]}: +${formatWeight(program.increment, unit)}, ` +
+    `−${program.deload_percent}% após ${program.deload_after} ${program.deload_after === 1 ? 'falha' : 'falhas'}`;
+
+  const describeLength = (program: Pick<Program, 'weeks'>) => {
+    const days = program.weeks[0]?.days.length ?? 0;
+    return program.weeks.length > 1
+      ? `${program.weeks.length} semanas · ${days} dias por semana`
+      : `${days} ${days === 1 ? 'dia' : 'dias'}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Carregando...</div>
+      </div>
+    );
+  }
+
+  const renderProgress = ({ enrollment, program, lifts }: EnrollmentState) => {
+    const maxes = new Map(lifts.map((lift) => [lift.name, lift]));
+
+    return (
+      <Card className="glass-card p-4 border-primary/50 space-y-4">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Programa atual</p>
+            <h2 className="font-semibold text-xl">{program.name}</h2>
+            <p className="text-sm text-muted-foreground">
+              Ciclo {enrollment.cycle} · desde {formatDateKey(enrollment.started_on)}
+            </p>
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="icon" title="Encerrar programa">
+                <Square className="w-4 h-4 text-destructive" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Encerrar programa?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  O progresso em "{program.name}" deixa de ser acompanhado. Treinos já registrados não são
+                  afetados.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={stopProgram}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Encerrar
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        <div className="space-y-2">
+          {program.weeks.map((week, weekIndex) => (
+            <div key={weekIndex} className="flex items-center gap-2">
+              {program.weeks.length > 1 && (
+                <span className="w-8 text-xs text-muted-foreground shrink-0">S{weekIndex + 1}</span>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {week.days.map((day, dayIndex) => {
+                  const isCurrent = weekIndex + 1 === enrollment.week && dayIndex + 1 === enrollment.day;
+                  const isDone =
+                    weekIndex + 1 < enrollment.week ||
+                    (weekIndex + 1 === enrollment.week && dayIndex + 1 < enrollment.day);
+                  return (
+                    <span
+                      key={dayIndex}
+                      className={cn(
+                        'px-3 py-1 rounded-full text-xs',
+                        isCurrent && 'bg-primary text-primary-foreground font-semibold',
+                        isDone && 'bg-primary/20 text-primary',
+                        !isCurrent && !isDone && 'bg-secondary/50 text-muted-foreground'
+                      )}
+                    >
+                      {day.name}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {lifts.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Exercício</TableHead>
+                <TableHead className="text-right">Carga de treino</TableHead>
+                <TableHead className="text-right">Falhas</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {programExercises(program)
+                .filter((name) => maxes.has(normalizeExerciseName(name)))
+                .map((name) => {
+                  const lift = maxes.get(normalizeExerciseName(name))!;
+                  return (
+                    <TableRow key={name}>
+                      <TableCell>{name}</TableCell>
+                      <TableCell className="text-right">{formatWeight(lift.training_max, unit)}</TableCell>
+                      <TableCell className="text-right">
+                        {lift.failures}/{program.deload_after}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+            </TableBody>
+          </Table>
+        )}
+
+        <Button
+          onClick={() => navigate(`/workout?program=${enrollment.id}`)}
+          className="w-full bg-primary text-primary-foreground neon-glow"
+        >
+          <Play className="w-4 h-4 mr-2" />
+          Treinar: {programDayLabel(program, enrollment.week, enrollment.day)}
+        </Button>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-background">
+      <div className="max-w-4xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between gap-4 mb-8"
+        >
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-primary/10 rounded-xl">
+                <CalendarRange className="w-6 h-6 text-primary" />
+              </div>
+              <h1 className="text-3xl font-bold">Programas</h1>
+            </div>
+          </div>
+          {templates.length > 0 && (
+            <Button onClick={() => setComposing(true)} size="sm" variant="outline">
+              <Layers className="w-4 h-4 mr-2" />
+              Montar de modelos
+            </Button>
+          )}
+        </motion.div>
+
+        <div className="space-y-8">
+          {active && (
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+              {renderProgress(active)}
+            </motion.div>
+          )}
+
+          {programs.length > 0 && (
+            <section className="space-y-4">
+              <h2 className="text-xl font-semibold">Meus programas</h2>
+              {programs.map((program, index) => (
+                <motion.div
+                  key={program.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                >
+                  <Card className="glass-card p-4">
+                    <div className="flex justify-between items-start gap-4">
+                      <div>
+                        <h3 className="font-semibold text-lg">{program.name}</h3>
+                        <p className="text-sm text-muted-foreground">
+                          {describeLength(program)} · {describeRules(program)}
+                        </p>
+                        {program.notes && <p className="text-sm mt-1">{program.notes}</p>}
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => startEnrolling(program)}
+                          title="Iniciar programa"
+                        >
+                          <Play className="w-4 h-4 text-primary" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setEditing(program)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon">
+                              <Trash2 className="w-4 h-4 text-destructive" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Excluir programa?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                "{program.name}" e seu progresso serão removidos. Treinos já registrados não
+                                são afetados.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteProgram(program.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Excluir
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </div>
+                  </Card>
+                </motion.div>
+              ))}
+            </section>
+          )}
+
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold">Programas prontos</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {PROGRAM_PRESETS.map((preset) => (
+                <Card key={preset.name} className="glass-card p-4 flex flex-col gap-3">
+                  <div className="flex-1">
+                    <h3 className="font-semibold">{preset.name}</h3>
+                    <p className="text-xs text-muted-foreground mb-2">{describeLength(preset)}</p>
+                    <p className="text-sm">{preset.notes}</p>
+                  </div>
+                  <Button variant="outline" size="sm" disabled={saving} onClick={() => addPreset(preset)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Adicionar
+                  </Button>
+                </Card>
+              ))}
+            </div>
+          </section>
+        </div>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {programs.some((p) => p.id === editing?.id) ? 'Editar Programa' : 'Novo Programa'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="program-name">Nome</Label>
+                <Input
+                  id="program-name"
+                  placeholder="Ex: Força 3x por semana"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  className="bg-secondary/50 border-border mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="program-notes">Observações</Label>
+                <Textarea
+                  id="program-notes"
+                  value={editing.notes}
+                  onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                  className="bg-secondary/50 border-border mt-2"
+                />
+              </div>
+              <div>
+                <Label>Progressão</Label>
+                <Select
+                  value={editing.progression}
+                  onValueChange={(value) => setEditing({ ...editing, progression: value as Progression })}
+                >
+                  <SelectTrigger className="bg-secondary/50 border-border mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PROGRESSION_LABELS) as Progression[]).map((progression) => (
+                      <SelectItem key={progression} value={progression}>
+                        {PROGRESSION_LABELS[progression]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <Label htmlFor="program-increment" className="text-xs">
+                    Aumento ({unit})
+                  </Label>
+                  <Input
+                    id="program-increment"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={editing.increment ? toUnit(editing.increment, unit) : ''}
+                    onChange={(e) =>
+                      setEditing({ ...editing, increment: fromUnit(parseFloat(e.target.value) || 0, unit) })
+                    }
+                    className="bg-secondary/50 border-border mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="program-deload-after" className="text-xs">
+                    Falhas p/ deload
+                  </Label>
+                  <Input
+                    id="program-deload-after"
+                    type="number"
+                    min="1"
+                    value={editing.deload_after || ''}
+                    onChange={(e) => setEditing({ ...editing, deload_after: parseInt(e.target.value) || 0 })}
+                    className="bg-secondary/50 border-border mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="program-deload-percent" className="text-xs">
+                    Deload (%)
+                  </Label>
+                  <Input
+                    id="program-deload-percent"
+                    type="number"
+                    min="0"
+                    max="99"
+                    value={editing.deload_percent || ''}
+                    onChange={(e) =>
+                      setEditing({ ...editing, deload_percent: parseFloat(e.target.value) || 0 })
+                    }
+                    className="bg-secondary/50 border-border mt-1"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                {editing.weeks.map((week, weekIndex) =>
+                  week.days.map((day, dayIndex) => (
+                    <div key={`${weekIndex}-${dayIndex}`} className="p-3 bg-secondary/20 rounded-lg text-sm">
+                      <p className="font-semibold">{programDayLabel(editing, weekIndex + 1, dayIndex + 1)}</p>
+                      <ul className="text-muted-foreground">
+                        {day.exercises.map((ex, index) => (
+                          <li key={index}>
+                            {ex.name}: {ex.sets.map((set) => `${set.reps}${set.amrap ? '+' : ''}`).join(', ')}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              onClick={() => editing && submitProgram(editing)}
+              disabled={saving}
+              className="bg-primary text-primary-foreground neon-glow"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Salvando...' : 'Salvar Programa'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!enrolling} onOpenChange={(open) => !open && setEnrolling(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Iniciar {enrolling?.name}</DialogTitle>
+            <DialogDescription>
+              Informe a carga de treino de cada exercício; as séries são calculadas a partir dela. Deixe em branco
+              para carregar por conta própria.
+              {active && ` "${active.program.name}" será encerrado.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {enrolling && (
+            <div className="space-y-3">
+              {programExercises(enrolling).map((name) => (
+                <div key={name} className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`tm-${name}`} className="flex-1">
+                    {name}
+                  </Label>
+                  <Input
+                    id={`tm-${name}`}
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    placeholder={unit}
+                    value={trainingMaxes[name] || ''}
+                    onChange={(e) =>
+                      setTrainingMaxes({ ...trainingMaxes, [name]: parseFloat(e.target.value) || 0 })
+                    }
+                    className="w-28 bg-secondary/50 border-border"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              onClick={submitEnrollment}
+              disabled={saving}
+              className="bg-primary text-primary-foreground neon-glow"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              {saving ? 'Iniciando...' : 'Iniciar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={composing} onOpenChange={setComposing}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Montar programa</DialogTitle>
+            <DialogDescription>Cada modelo escolhido vira um dia, na ordem da lista.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="compose-name">Nome</Label>
+              <Input
+                id="compose-name"
+                value={composeName}
+                onChange={(e) => setComposeName(e.target.value)}
+                className="bg-secondary/50 border-border mt-2"
+              />
+            </div>
+            <div className="space-y-2">
+              {templates.map((template) => (
+                <label key={template.id} className="flex items-center gap-3 text-sm">
+                  <Checkbox
+                    checked={composeIds.includes(template.id)}
+                    onCheckedChange={(checked) =>
+                      setComposeIds(
+                        checked ? [...composeIds, template.id] : composeIds.filter((id) => id !== template.id)
+                      )
+                    }
+                  />
+                  {template.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={composeFromTemplates} className="bg-primary text-primary-foreground neon-glow">
+              Continuar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Programs;
@@ -0,0 +1,389 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ClipboardList, Pencil, Play, Plus, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createTemplateExercise,
+  fetchTemplates,
+  saveTemplate,
+  type TemplateExercise,
+  type TemplatePayload,
+} from '@/lib/templates';
+import { formatWeight, fromUnit, toUnit } from '@/lib/units';
+
+const Templates = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { preferences } = usePreferences();
+  const [templates, setTemplates] = useState<TemplatePayload[]>([]);
+  const [editing, setEditing] = useState<TemplatePayload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    loadTemplates();
+  }, [user, navigate]);
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await fetchTemplates());
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar modelos',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const newTemplate = () => {
+    setEditing({
+      id: crypto.randomUUID(),
+      name: '',
+      notes: '',
+      exercises: [createTemplateExercise()],
+    });
+  };
+
+  const updateExercise = <K extends keyof TemplateExercise>(
+    id: string,
+    field: K,
+    value: TemplateExercise[K]
+  ) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      exercises: editing.exercises.map((ex) => (ex.id === id ? { ...ex, [field]: value } : ex)),
+    });
+  };
+
+  const submitTemplate = async () => {
+    if (!editing) return;
+
+    if (!editing.name.trim()) {
+      toast({
+        title: 'Nome do modelo obrigatório',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (editing.exercises.some((ex) => !ex.name.trim())) {
+      toast({
+        title: 'Todos os exercícios precisam de um nome',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await saveTemplate(editing);
+      toast({ title: 'Modelo salvo!' });
+      setEditing(null);
+      loadTemplates();
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar modelo',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteTemplate = async (id: string) => {
+    try {
+      const { error } = await supabase.from('workout_templates').delete().eq('id', id);
+
+      if (error) throw error;
+
+      setTemplates(templates.filter((t) => t.id !== id));
+      toast({ title: 'Modelo excluído' });
+    } catch (error) {
+      toast({
+        title: 'Erro ao excluir modelo',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Carregando...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-background">
+      <div className="max-w-4xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between gap-4 mb-8"
+        >
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-primary/10 rounded-xl">
+                <ClipboardList className="w-6 h-6 text-primary" />
+              </div>
+              <h1 className="text-3xl font-bold">Modelos de Treino</h1>
+            </div>
+          </div>
+          <Button onClick={newTemplate} size="sm" className="bg-primary text-primary-foreground neon-glow">
+            <Plus className="w-4 h-4 mr-2" />
+            Novo
+          </Button>
+        </motion.div>
+
+        {templates.length === 0 ? (
+          <Card className="glass-card p-12 text-center">
+            <ClipboardList className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Nenhum modelo criado</h2>
+            <p className="text-muted-foreground mb-6">
+              Crie um modelo ou salve um treino do histórico como modelo.
+            </p>
+            <Button onClick={newTemplate} variant="outline">
+              <Plus className="w-4 h-4 mr-2" />
+              Criar primeiro modelo
+            </Button>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {templates.map((template, index) => (
+              <motion.div
+                key={template.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <Card className="glass-card p-4">
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <h3 className="font-semibold text-lg">{template.name}</h3>
+                      {template.notes && (
+                        <p className="text-sm text-muted-foreground">{template.notes}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => navigate(`/workout?template=${template.id}`)}
+                      >
+                        <Play className="w-4 h-4 text-primary" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditing(template)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Excluir modelo?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{template.name}" será removido. Treinos já registrados não são afetados.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteTemplate(template.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Excluir
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                  <ul className="mt-3 space-y-1 text-sm">
+                    {template.exercises.map((ex) => (
+                      <li key={ex.id} className="flex justify-between">
+                        <span>{ex.name}</span>
+                        <span className="text-muted-foreground">
+                          {ex.target_sets}x{ex.target_reps} @ {formatWeight(ex.target_weight, preferences.weightUnit)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </Card>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {templates.some((t) => t.id === editing?.id) ? 'Editar Modelo' : 'Novo Modelo'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="template-name">Nome</Label>
+                <Input
+                  id="template-name"
+                  placeholder="Ex: Treino A"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  className="bg-secondary/50 border-border mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-notes">Observações</Label>
+                <Textarea
+                  id="template-notes"
+                  value={editing.notes}
+                  onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                  className="bg-secondary/50 border-border mt-2"
+                />
+              </div>
+
+              <div className="space-y-3">
+                {editing.exercises.map((ex) => (
+                  <div key={ex.id} className="p-3 bg-secondary/20 rounded-lg space-y-2">
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Nome do exercício"
+                        value={ex.name}
+                        onChange={(e) => updateExercise(ex.id, 'name', e.target.value)}
+                        className="bg-secondary/50 border-border"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          setEditing({
+                            ...editing,
+                            exercises: editing.exercises.filter((item) => item.id !== ex.id),
+                          })
+                        }
+                      >
+                        <X className="w-4 h-4 text-muted-foreground" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div>
+                        <Label className="text-xs">Séries</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={ex.target_sets || ''}
+                          onChange={(e) => updateExercise(ex.id, 'target_sets', parseInt(e.target.value) || 0)}
+                          className="bg-secondary/50 border-border mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Reps</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={ex.target_reps || ''}
+                          onChange={(e) => updateExercise(ex.id, 'target_reps', parseInt(e.target.value) || 0)}
+                          className="bg-secondary/50 border-border mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Peso ({preferences.weightUnit})</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={ex.target_weight ? toUnit(ex.target_weight, preferences.weightUnit) : ''}
+                          onChange={(e) =>
+                            updateExercise(
+                              ex.id,
+                              'target_weight',
+                              fromUnit(parseFloat(e.target.value) || 0, preferences.weightUnit)
+                            )
+                          }
+                          className="bg-secondary/50 border-border mt-1"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() =>
+                    setEditing({ ...editing, exercises: [...editing.exercises, createTemplateExercise()] })
+                  }
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Adicionar exercício
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              onClick={submitTemplate}
+              disabled={saving}
+              className="bg-primary text-primary-foreground neon-glow"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Salvando...' : 'Salvar Modelo'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Templates;
@@ -1,57 +1,510 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Plus, Trash2, Save } from 'lucide-react';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, Plus, Trash2, Save, X, Timer, Play, Flag, Link2, Unlink, Calculator, CalendarDays } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import ExerciseNameInput from '@/components/ExerciseNameInput';
+import LastPerformanceHint from '@/components/LastPerformanceHint';
+import PlateCalculator from '@/components/PlateCalculator';
+import RestTimer from '@/components/RestTimer';
+import SetFieldInput from '@/components/SetFieldInput';
+import SessionClock from '@/components/SessionClock';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 import { supabase } from '@/integrations/supabase/client';
+import { useExerciseCatalog, useExerciseCatalogQuery } from '@/hooks/use-exercise-catalog';
+import { useRestTimer } from '@/hooks/use-rest-timer';
 import { useToast } from '@/hooks/use-toast';
+import { findCatalogMatch } from '@/lib/catalog';
+import {
+  dateKeyIn,
+  formatDateKey,
+  parseDateKey,
+  timeIn,
+  toDateKey,
+  zonedTimeToIso,
+} from '@/lib/dates';
+import { discardDraft, getDraft, isEmptyDraft, saveDraft } from '@/lib/drafts';
+import {
+  fetchLastPerformance,
+  normalizeExerciseName,
+  sessionMetrics,
+  type LastPerformance,
+} from '@/lib/history';
+import { getPendingWorkout } from '@/lib/outbox';
+import { fetchPlannedWorkout } from '@/lib/plans';
+import type { WarmupSet } from '@/lib/plates';
+import { fetchEnrollment, programWorkout } from '@/lib/programs';
+import { summarizeRecords } from '@/lib/records';
+import { formatDuration, getRestDefault, REST_OPTIONS, setRestDefault } from '@/lib/rest';
+import { exercisesFromTemplate, fetchTemplates, type TemplatePayload } from '@/lib/templates';
+import { formatWeight, fromUnit, toUnit, type WeightUnit } from '@/lib/units';
+import {
+  CLUSTER_REST_SECONDS,
+  createSet,
+  EFFORT_SCALE_LABELS,
+  EXERCISE_KIND_LABELS,
+  exerciseBlocks,
+  GROUP_TYPE_LABELS,
+  groupWithNext,
+  isRoundComplete,
+  KIND_FIELDS,
+  nextGroupSet,
+  normalizeGroups,
+  normalizeTempo,
+  programRefOf,
+  SET_FIELD_LABELS,
+  SET_TYPE_LABELS,
+  ungroupExercise,
+  type ExerciseKind,
+  type GroupType,
+  type ProgramRef,
+  type SetType,
+  type WorkoutExercise as Exercise,
+  type WorkoutPayload,
+  type WorkoutSet,
+  withExerciseDefaults,
+} from '@/lib/workout';
 
-interface Exercise {
-  id: string;
-  name: string;
-  sets: number;
-  reps: number;
-  weight: number;
-  notes: string;
-}
+const DRAFT_DEBOUNCE_MS = 300;
+
+// Set number, type, the kind's fields, done and remove
+const setGridStyle = (kind: ExerciseKind) => ({
+  gridTemplateColumns: `2rem minmax(0, 1fr) repeat(${KIND_FIELDS[kind].length}, minmax(0, 1fr)) 2rem 2rem`,
+});
 
 const Workout = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { id: workoutId } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
+  const { saveWorkout: saveToOutbox } = useOutbox();
+  const { preferences, updatePreferences } = usePreferences();
+  const rest = useRestTimer();
+  // Bumped when a rest default changes so the selects re-read localStorage
+  const [, setRestVersion] = useState(0);
+  const catalog = useExerciseCatalog();
+  const { isPending: catalogPending } = useExerciseCatalogQuery();
   const [workoutName, setWorkoutName] = useState('');
   const [workoutNotes, setWorkoutNotes] = useState('');
+  // Id for a new workout, fixed up front so a live session keeps it across reloads
+  const [draftId, setDraftId] = useState<string>(() => crypto.randomUUID());
+  const [startedAt, setStartedAt] = useState<string | null>(null);
+  const [endedAt, setEndedAt] = useState<string | null>(null);
+  // Picked day for backdating; null follows the session start, or today
+  const [workoutDate, setWorkoutDate] = useState<string | null>(null);
+  // "HH:mm" typed for a session logged after the fact; applied once both are set
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
   const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [templates, setTemplates] = useState<TemplatePayload[]>([]);
+  // Program day this workout was generated from; copies start outside the program
+  const [programRef, setProgramRef] = useState<ProgramRef | null>(null);
+  const [plannedWorkoutId, setPlannedWorkoutId] = useState<string | null>(null);
+  // Exercise whose plate calculator is open
+  const [plateExerciseId, setPlateExerciseId] = useState<string | null>(null);
+  // Keyed by normalized exercise name; null means "looked up, never logged"
+  const [lastPerformance, setLastPerformance] = useState<Record<string, LastPerformance | null>>({});
+  const [loading, setLoading] = useState(
+    !!workoutId || ['from', 'draft', 'program', 'plan'].some((param) => searchParams.has(param))
+  );
+  // Latest unsaved state of a new workout; cleared once it is saved
+  const draftRef = useRef<WorkoutPayload | null>(null);
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     if (!user) {
       navigate('/auth');
+      return;
+    }
+    if (workoutId) {
+      fetchWorkout(workoutId);
+    } else {
+      const copyFromId = searchParams.get('from');
+      const draftParam = searchParams.get('draft');
+      if (copyFromId) fetchWorkout(copyFromId, true);
+      const programParam = searchParams.get('program');
+      const planParam = searchParams.get('plan');
+      if (draftParam) resumeDraft(draftParam);
+      if (programParam) loadProgramDay(programParam);
+      if (planParam) loadPlan(planParam);
+      loadTemplates(searchParams.get('template'));
+    }
+  }, [user, navigate, workoutId]);
+
+  // New workouts are mirrored to IndexedDB as a draft, so a killed tab or a
+  // reload can be resumed from the Dashboard.
+  useEffect(() => {
+    if (workoutId || loading) return;
+
+    draftRef.current = {
+      id: draftId,
+      name: workoutName,
+      notes: workoutNotes,
+      date: workoutDate ?? undefined,
+      started_at: startedAt,
+      ended_at: endedAt,
+      exercises,
+      ...programRef,
+      planned_workout_id: plannedWorkoutId,
+    };
+    const timeout = setTimeout(async () => {
+      // Once the draft exists, a reload of this URL resumes it instead of
+      // opening an empty editor
+      if ((await persistDraft()) && searchParams.get('draft') !== draftId) {
+        navigate(`/workout?draft=${draftId}`, { replace: true });
+      }
+    }, DRAFT_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [
+    workoutId,
+    loading,
+    searchParams,
+    draftId,
+    workoutDate,
+    startedAt,
+    endedAt,
+    workoutName,
+    workoutNotes,
+    exercises,
+    programRef,
+    plannedWorkoutId,
+  ]);
+
+  // The debounce may never fire if the OS freezes the tab, so flush on hide,
+  // and on leaving the page, which cancels the pending debounce
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState === 'hidden') persistDraft();
+    };
+    document.addEventListener('visibilitychange', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', flush);
+      persistDraft();
+    };
+  }, [user]);
+
+  useEffect(() => {
+    // Results are cached per name, so wait for the catalog instead of caching a name-only match
+    if (catalogPending) return;
+    const missing = [
+      ...new Set(
+        exercises
+          .map((ex) => normalizeExerciseName(ex.name))
+          .filter((name) => name && !(name in lastPerformance))
+      ),
+    ];
+    if (missing.length === 0) return;
+
+    // Wait for typing to settle before hitting the database
+    const timeout = setTimeout(async () => {
+      const results = await Promise.all(
+        missing.map((name) => fetchLastPerformance(name, catalog, workoutId).catch(() => null))
+      );
+      setLastPerformance((current) => ({
+        ...current,
+        ...Object.fromEntries(missing.map((name, index) => [name, results[index]])),
+      }));
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [exercises, lastPerformance, workoutId, catalog, catalogPending]);
+
+  const loadTemplates = async (preselectedId: string | null) => {
+    try {
+      const data = await fetchTemplates();
+      setTemplates(data);
+
+      const preselected = data.find((t) => t.id === preselectedId);
+      if (preselected) applyTemplate(preselected);
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar modelos',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  /** Resolves to whether a draft is now stored. */
+  const persistDraft = async () => {
+    const payload = draftRef.current;
+    if (!user || !payload) return false;
+    const empty = isEmptyDraft(payload);
+    try {
+      await (empty ? discardDraft(payload.id) : saveDraft(user.id, payload));
+      return !empty;
+    } catch {
+      // Drafts are best effort: IndexedDB may be unavailable (private mode, quota)
+      return false;
+    }
+  };
+
+  const resumeDraft = async (id: string) => {
+    try {
+      const draft = await getDraft(id);
+      if (!draft || draft.userId !== user?.id) {
+        toast({ title: 'Rascunho não encontrado', variant: 'destructive' });
+        return;
+      }
+
+      setDraftId(draft.id);
+      setWorkoutName(draft.payload.name);
+      setWorkoutNotes(draft.payload.notes);
+      setExercises(withExerciseDefaults(draft.payload.exercises));
+      setWorkoutDate(draft.payload.date ?? null);
+      applySession(draft.payload.started_at, draft.payload.ended_at);
+      setProgramRef(programRefOf(draft.payload));
+      setPlannedWorkoutId(draft.payload.planned_workout_id ?? null);
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar rascunho',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The plan's template, if any, comes in through the `template` param
+  const loadPlan = async (id: string) => {
+    try {
+      const plan = await fetchPlannedWorkout(id);
+      if (!plan) {
+        toast({ title: 'Treino planejado não encontrado', variant: 'destructive' });
+        return;
+      }
+
+      setWorkoutName(plan.name);
+      setWorkoutNotes(plan.notes || '');
+      setPlannedWorkoutId(plan.id);
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar treino planejado',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadProgramDay = async (enrollmentId: string) => {
+    try {
+      const state = await fetchEnrollment(enrollmentId);
+      const generated = state && programWorkout(state, preferences.weightUnit, catalog);
+      if (!state || !generated) {
+        toast({ title: 'Dia do programa não encontrado', variant: 'destructive' });
+        return;
+      }
+
+      setWorkoutName(generated.name);
+      setExercises(generated.exercises);
+      setProgramRef({
+        enrollment_id: state.enrollment.id,
+        program_week: state.enrollment.week,
+        program_day: state.enrollment.day,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar programa',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startSession = () => setStartedAt(new Date().toISOString());
+
+  const stopSession = () => setStartedAt(null);
+
+  const applySession = (started: string | null, ended: string | null) => {
+    setStartedAt(started);
+    setEndedAt(ended);
+    setStartTime(started && ended ? timeIn(started, preferences.timezone) : '');
+    setEndTime(started && ended ? timeIn(ended, preferences.timezone) : '');
+  };
+
+  // Day the workout is saved under, in the user's timezone
+  const displayedDate = workoutDate ?? dateKeyIn(startedAt ?? Date.now(), preferences.timezone);
+
+  const updateSessionTimes = (date: string, start: string, end: string) => {
+    setStartTime(start);
+    setEndTime(end);
+    if (!start || !end) {
+      setStartedAt(null);
+      setEndedAt(null);
+      return;
     }
-  }, [user, navigate]);
+
+    const started = zonedTimeToIso(date, start, preferences.timezone);
+    let ended = zonedTimeToIso(date, end, preferences.timezone);
+    // An end before the start ran past midnight
+    if (ended < started) ended = new Date(Date.parse(ended) + 24 * 60 * 60 * 1000).toISOString();
+    setStartedAt(started);
+    setEndedAt(ended);
+  };
+
+  const changeDate = (date: string) => {
+    setWorkoutDate(date);
+    if (startTime && endTime) updateSessionTimes(date, startTime, endTime);
+  };
+
+  // A session that was started here and is still running
+  const isLive = !workoutId && !!startedAt && !endedAt;
+
+  const applyTemplate = (template: TemplatePayload) => {
+    setWorkoutName((name) => name || template.name);
+    setExercises(exercisesFromTemplate(template, catalog));
+  };
+
+  const fetchWorkout = async (id: string, asCopy = false) => {
+    const applyWorkout = (
+      {
+        name,
+        notes,
+        date,
+        started_at,
+        ended_at,
+        planned_workout_id,
+        ...program
+      }: Omit<WorkoutPayload, 'id' | 'exercises'>,
+      loaded: Exercise[]
+    ) => {
+      setWorkoutName(name);
+      setWorkoutNotes(notes);
+      if (!asCopy) {
+        setWorkoutDate(date ?? null);
+        applySession(started_at, ended_at);
+        setProgramRef(programRefOf(program));
+        setPlannedWorkoutId(planned_workout_id ?? null);
+      }
+      setExercises(
+        asCopy
+          ? loaded.map((ex) => ({
+              ...ex,
+              id: crypto.randomUUID(),
+              sets: ex.sets.map((set) => ({ ...set, id: crypto.randomUUID(), completed: false })),
+            }))
+          : loaded
+      );
+    };
+
+    try {
+      // A workout saved offline only exists locally until the outbox syncs it;
+      // an outbox that can't be opened has nothing pending
+      const pendingEntry = await getPendingWorkout(id).catch(() => undefined);
+      if (pendingEntry) {
+        applyWorkout(pendingEntry.payload, withExerciseDefaults(pendingEntry.payload.exercises));
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('workouts')
+        .select('*, exercises(*, exercise_sets(*))')
+        .eq('id', id)
+        .order('position', { referencedTable: 'exercises' })
+        .order('set_number', { referencedTable: 'exercises.exercise_sets' })
+        .single();
+
+      if (error) throw error;
+
+      applyWorkout(
+        { ...data, notes: data.notes || '' },
+        data.exercises.map((ex) => ({
+          id: ex.id,
+          name: ex.name,
+          exercise_catalog_id: ex.exercise_catalog_id,
+          kind: ex.kind as ExerciseKind,
+          group_id: ex.group_id,
+          group_type: ex.group_type as GroupType | null,
+          weight_unit: ex.weight_unit as WeightUnit | null,
+          notes: ex.notes || '',
+          sets: ex.exercise_sets.map((set) => ({
+            id: set.id,
+            reps: set.reps,
+            weight: set.weight ?? 0,
+            completed: set.completed,
+            set_type: set.set_type as SetType,
+            duration_seconds: set.duration_seconds,
+            distance_meters: set.distance_meters,
+            calories: set.calories,
+            incline: set.incline,
+            rpe: set.rpe,
+            rir: set.rir,
+            tempo: set.tempo,
+          })),
+        }))
+      );
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar treino',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+      navigate('/history');
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const addExercise = () => {
     const newExercise: Exercise = {
       id: crypto.randomUUID(),
       name: '',
-      sets: 0,
-      reps: 0,
-      weight: 0,
+      exercise_catalog_id: null,
+      kind: 'strength',
+      group_id: null,
+      group_type: null,
+      weight_unit: null,
+      sets: [createSet()],
       notes: '',
     };
     setExercises([...exercises, newExercise]);
   };
 
   const removeExercise = (id: string) => {
-    setExercises(exercises.filter((ex) => ex.id !== id));
+    setExercises(normalizeGroups(exercises.filter((ex) => ex.id !== id)));
   };
 
-  const updateExercise = (id: string, field: keyof Exercise, value: any) => {
+  const linkWithNext = (id: string) => setExercises(groupWithNext(exercises, id));
+
+  const unlinkExercise = (id: string) => setExercises(ungroupExercise(exercises, id));
+
+  const changeGroupType = (groupId: string, groupType: GroupType) => {
+    setExercises(
+      exercises.map((ex) => (ex.group_id === groupId ? { ...ex, group_type: groupType } : ex))
+    );
+  };
+
+  const dissolveGroup = (groupId: string) => {
+    setExercises(
+      exercises.map((ex) =>
+        ex.group_id === groupId ? { ...ex, group_id: null, group_type: null } : ex
+      )
+    );
+  };
+
+  const updateExercise = (id: string, field: 'name' | 'notes', value: string) => {
     setExercises(
       exercises.map((ex) =>
         ex.id === id ? { ...ex, [field]: value } : ex
@@ -59,6 +512,189 @@ const Workout = () => {
     );
   };
 
+  const renameExercise = (id: string, name: string, catalogId: string | null) => {
+    // Picking a catalog entry also suggests its kind; typing keeps the current one
+    const entry = catalogId && catalog.find((e) => e.id === catalogId);
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === id
+          ? {
+              ...ex,
+              name,
+              exercise_catalog_id: catalogId,
+              kind: entry && catalogId !== ex.exercise_catalog_id ? entry.default_kind : ex.kind,
+            }
+          : ex
+      )
+    );
+  };
+
+  const weightUnitOf = (exercise: Exercise) => exercise.weight_unit ?? preferences.weightUnit;
+
+  // An override equal to the profile unit is dropped, so it follows later changes
+  const toggleWeightUnit = (exercise: Exercise) => {
+    const next = weightUnitOf(exercise) === 'kg' ? 'lb' : 'kg';
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === exercise.id
+          ? { ...ex, weight_unit: next === preferences.weightUnit ? null : next }
+          : ex
+      )
+    );
+  };
+
+  const workingWeightOf = (exercise: Exercise) =>
+    Math.max(0, ...exercise.sets.filter((set) => set.set_type !== 'warmup').map((set) => set.weight));
+
+  // Generated warm-ups replace any already logged, ahead of the working sets
+  const insertWarmups = (exercise: Exercise, warmups: WarmupSet[]) => {
+    const unit = weightUnitOf(exercise);
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === exercise.id
+          ? {
+              ...ex,
+              sets: [
+                ...warmups.map((set) => ({
+                  ...createSet({ reps: set.reps, weight: fromUnit(set.weight, unit) }),
+                  set_type: 'warmup' as const,
+                })),
+                ...ex.sets.filter((set) => set.set_type !== 'warmup'),
+              ],
+            }
+          : ex
+      )
+    );
+  };
+
+  const changeKind = (id: string, kind: ExerciseKind) => {
+    setExercises(exercises.map((ex) => (ex.id === id ? { ...ex, kind } : ex)));
+  };
+
+  const lastPerformanceFor = (name: string) => lastPerformance[normalizeExerciseName(name)];
+
+  const copyLastPerformance = (exercise: Exercise) => {
+    const performance = lastPerformanceFor(exercise.name);
+    if (!performance) return;
+
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === exercise.id
+          ? {
+              ...ex,
+              kind: performance.kind,
+              sets: performance.sets.map((set) => ({
+                ...createSet({ ...set, weight: set.weight ?? 0 }),
+                set_type: set.set_type as SetType,
+              })),
+            }
+          : ex
+      )
+    );
+  };
+
+  const addSet = (exerciseId: string) => {
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === exerciseId
+          ? { ...ex, sets: [...ex.sets, createSet(ex.sets[ex.sets.length - 1])] }
+          : ex
+      )
+    );
+  };
+
+  const removeSet = (exerciseId: string, setId: string) => {
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === exerciseId
+          ? { ...ex, sets: ex.sets.filter((set) => set.id !== setId) }
+          : ex
+      )
+    );
+  };
+
+  const updateSet = <K extends keyof WorkoutSet>(
+    exerciseId: string,
+    setId: string,
+    field: K,
+    value: WorkoutSet[K]
+  ) => {
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === exerciseId
+          ? {
+              ...ex,
+              sets: ex.sets.map((set) =>
+                set.id === setId ? { ...set, [field]: value } : set
+              ),
+            }
+          : ex
+      )
+    );
+  };
+
+  const updateSetFields = (exerciseId: string, setId: string, changes: Partial<WorkoutSet>) => {
+    setExercises(
+      exercises.map((ex) =>
+        ex.id === exerciseId
+          ? { ...ex, sets: ex.sets.map((set) => (set.id === setId ? { ...set, ...changes } : set)) }
+          : ex
+      )
+    );
+  };
+
+  const changeRestDefault = (exercise: Exercise, seconds: number) => {
+    setRestDefault(exercise.name, seconds);
+    setRestVersion((version) => version + 1);
+  };
+
+  const completeSet = (exercise: Exercise, setId: string, completed: boolean) => {
+    const updated = exercises.map((ex) =>
+      ex.id === exercise.id
+        ? { ...ex, sets: ex.sets.map((set) => (set.id === setId ? { ...set, completed } : set)) }
+        : ex
+    );
+    setExercises(updated);
+    if (!completed) return;
+
+    const setIndex = exercise.sets.findIndex((set) => set.id === setId);
+    const following = exercise.sets[setIndex + 1];
+    if (following?.set_type === 'drop') {
+      rest.stop();
+      return;
+    }
+    if (following?.set_type === 'cluster') {
+      rest.start(exercise.name, CLUSTER_REST_SECONDS);
+      return;
+    }
+
+    if (!exercise.group_id) {
+      rest.start(exercise.name, getRestDefault(exercise.name));
+      return;
+    }
+
+    // In a group the rest comes after the round, at the longest rest among its exercises
+    const members = updated.filter((ex) => ex.group_id === exercise.group_id);
+    if (isRoundComplete(members, setIndex)) {
+      rest.start(
+        members.map((ex) => ex.name.trim() || 'Exercício').join(' + '),
+        Math.max(...members.map((ex) => getRestDefault(ex.name)))
+      );
+    } else {
+      rest.stop();
+      const next = nextGroupSet(members);
+      if (next) {
+        document
+          .getElementById(`exercise-${next.exerciseId}`)
+          ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      }
+    }
+  };
+
+  // Best estimate among the completed working sets logged so far
+  const oneRepMaxOf = (exercise: Exercise) =>
+    sessionMetrics(exercise.sets, preferences.e1rmFormula).oneRepMax;
+
   const saveWorkout = async () => {
     if (!workoutName.trim()) {
       toast({
@@ -76,42 +712,68 @@ const Workout = () => {
       return;
     }
 
+    if (exercises.some((ex) => ex.sets.length === 0)) {
+      toast({
+        title: 'Cada exercício precisa de pelo menos uma série',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setSaving(true);
 
     try {
-      const { data: workout, error: workoutError } = await supabase
-        .from('workouts')
-        .insert({
-          user_id: user!.id,
-          name: workoutName,
-          notes: workoutNotes,
-        })
-        .select()
-        .single();
-
-      if (workoutError) throw workoutError;
-
-      const exercisesData = exercises.map((ex) => ({
-        workout_id: workout.id,
-        name: ex.name,
-        sets: ex.sets,
-        reps: ex.reps,
-        weight: ex.weight,
-        notes: ex.notes,
-      }));
-
-      const { error: exercisesError } = await supabase
-        .from('exercises')
-        .insert(exercisesData);
+      const payload: WorkoutPayload = {
+        id: workoutId ?? draftId,
+        name: workoutName,
+        notes: workoutNotes,
+        date: displayedDate,
+        started_at: startedAt,
+        // Saving a live session is what finishes it
+        ended_at: startedAt ? endedAt ?? new Date().toISOString() : null,
+        exercises: exercises.map((ex) => ({
+          ...ex,
+          name: ex.name.trim(),
+          // Template and copied exercises may predate the catalog link
+          exercise_catalog_id:
+            ex.exercise_catalog_id ?? findCatalogMatch(catalog, ex.name)?.id ?? null,
+          sets: ex.sets.map((set) => ({ ...set, tempo: normalizeTempo(set.tempo) })),
+        })),
+        ...programRef,
+        planned_workout_id: plannedWorkoutId,
+      };
 
-      if (exercisesError) throw exercisesError;
+      const result = await saveToOutbox(payload);
+      if (!workoutId) {
+        draftRef.current = null;
+        // The workout is saved either way; a leftover draft only shows up on the Dashboard
+        discardDraft(payload.id).catch(() => undefined);
+      }
 
-      toast({
-        title: 'Treino salvo!',
-        description: 'Seu treino foi registrado com sucesso.',
-      });
+      if (result.status === 'queued') {
+        toast({
+          title: 'Treino salvo offline',
+          description: 'Ele será sincronizado assim que houver conexão.',
+        });
+      } else if (result.records.length > 0) {
+        toast({
+          title: result.records.length === 1 ? 'Novo recorde pessoal!' : 'Novos recordes pessoais!',
+          description: summarizeRecords(
+            result.records,
+            preferences.e1rmFormula,
+            preferences.weightUnit
+          ),
+        });
+      } else {
+        toast({
+          title: workoutId ? 'Treino atualizado!' : 'Treino salvo!',
+          description: workoutId
+            ? 'As alterações foram salvas.'
+            : 'Seu treino foi registrado com sucesso.',
+        });
+      }
 
-      navigate('/');
+      navigate(workoutId ? '/history' : '/');
     } catch (error: any) {
       toast({
         title: 'Erro ao salvar treino',
@@ -123,23 +785,305 @@ const Workout = () => {
     }
   };
 
+  // upNextSetId marks the set to do next when the exercise is part of a group
+  const renderExercise = (
+    exercise: Exercise,
+    groupLabel: string | null = null,
+    upNextSetId: string | null = null
+  ) => {
+    const index = exercises.indexOf(exercise);
+
+    return (
+      <motion.div
+        key={exercise.id}
+        id={`exercise-${exercise.id}`}
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: index * 0.05 }}
+      >
+        <Card className={`glass-card p-4 ${upNextSetId ? 'ring-1 ring-primary' : ''}`}>
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="font-semibold text-lg">
+                {groupLabel && <span className="text-primary mr-2">{groupLabel}</span>}
+                Exercício {index + 1}
+              </h3>
+              {oneRepMaxOf(exercise) > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  1RM est. {formatWeight(oneRepMaxOf(exercise), weightUnitOf(exercise))}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <Select
+                value={String(getRestDefault(exercise.name))}
+                onValueChange={(value) => changeRestDefault(exercise, Number(value))}
+              >
+                <SelectTrigger className="h-8 w-24 gap-1 bg-secondary/50 border-border text-xs">
+                  <Timer className="w-3 h-3" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REST_OPTIONS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {formatDuration(seconds)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {exercise.kind === 'strength' && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setPlateExerciseId(exercise.id)}
+                  title="Calculadora de anilhas"
+                >
+                  <Calculator className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              )}
+              {exercise.group_id ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => unlinkExercise(exercise.id)}
+                  title="Remover do grupo"
+                >
+                  <Unlink className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              ) : null}
+              {index < exercises.length - 1 &&
+                (!exercise.group_id || exercises[index + 1].group_id !== exercise.group_id) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => linkWithNext(exercise.id)}
+                    title="Agrupar com o próximo"
+                  >
+                    <Link2 className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeExercise(exercise.id)}
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <div className="flex items-center justify-between gap-2">
+                <Label>Nome do Exercício</Label>
+                <Select
+                  value={exercise.kind}
+                  onValueChange={(value) => changeKind(exercise.id, value as ExerciseKind)}
+                >
+                  <SelectTrigger className="h-7 w-36 bg-secondary/50 border-border text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(EXERCISE_KIND_LABELS) as ExerciseKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {EXERCISE_KIND_LABELS[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ExerciseNameInput
+                value={exercise.name}
+                catalogId={exercise.exercise_catalog_id}
+                onChange={(name, catalogId) => renameExercise(exercise.id, name, catalogId)}
+                className="bg-secondary/50 border-border mt-1"
+              />
+              {lastPerformanceFor(exercise.name) && (
+                <LastPerformanceHint
+                  performance={lastPerformanceFor(exercise.name)!}
+                  unit={weightUnitOf(exercise)}
+                  onCopy={() => copyLastPerformance(exercise)}
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div
+                className="grid gap-2 items-center text-xs text-muted-foreground"
+                style={setGridStyle(exercise.kind)}
+              >
+                <span>Série</span>
+                <span>Tipo</span>
+                {KIND_FIELDS[exercise.kind].map((field) =>
+                  field === 'effort' ? (
+                    <button
+                      key={field}
+                      type="button"
+                      className="text-left underline decoration-dotted hover:text-primary"
+                      title="Alternar entre RPE e RIR"
+                      onClick={() =>
+                        updatePreferences({ effortScale: preferences.effortScale === 'rpe' ? 'rir' : 'rpe' })
+                      }
+                    >
+                      {EFFORT_SCALE_LABELS[preferences.effortScale]}
+                    </button>
+                  ) : field === 'weight' ? (
+                    <button
+                      key={field}
+                      type="button"
+                      className="text-left underline decoration-dotted hover:text-primary"
+                      title="Alternar entre kg e lb neste exercício"
+                      onClick={() => toggleWeightUnit(exercise)}
+                    >
+                      {exercise.kind === 'strength' ? SET_FIELD_LABELS.weight : 'Extra'} ({weightUnitOf(exercise)})
+                    </button>
+                  ) : (
+                    <span key={field}>{SET_FIELD_LABELS[field]}</span>
+                  )
+                )}
+                <span />
+                <span />
+              </div>
+              {exercise.sets.map((set, setIndex) => (
+                <div
+                  key={set.id}
+                  className={`grid gap-2 items-center rounded-md ${set.id === upNextSetId ? 'bg-primary/10' : ''}`}
+                  style={setGridStyle(exercise.kind)}
+                >
+                  <span className="text-sm font-semibold text-center">
+                    {set.set_type === 'drop' || set.set_type === 'cluster' ? '↳' : setIndex + 1}
+                  </span>
+                  <Select
+                    value={set.set_type}
+                    onValueChange={(value) => updateSet(exercise.id, set.id, 'set_type', value as SetType)}
+                  >
+                    <SelectTrigger className="bg-secondary/50 border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SET_TYPE_LABELS) as SetType[]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {SET_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {KIND_FIELDS[exercise.kind].map((field) => (
+                    <SetFieldInput
+                      key={field}
+                      field={field}
+                      set={set}
+                      unit={weightUnitOf(exercise)}
+                      onChange={(changes) => updateSetFields(exercise.id, set.id, changes)}
+                    />
+                  ))}
+                  <Checkbox
+                    checked={set.completed}
+                    onCheckedChange={(checked) => completeSet(exercise, set.id, checked === true)}
+                    className="mx-auto h-5 w-5"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => removeSet(exercise.id, set.id)}
+                  >
+                    <X className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addSet(exercise.id)}
+                className="w-full"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Adicionar série
+              </Button>
+            </div>
+
+            <div>
+              <Label>Observações</Label>
+              <Input
+                placeholder="Ex: Aumentar peso na próxima vez"
+                value={exercise.notes}
+                onChange={(e) => updateExercise(exercise.id, 'notes', e.target.value)}
+                className="bg-secondary/50 border-border mt-1"
+              />
+            </div>
+          </div>
+        </Card>
+      </motion.div>
+    );
+  };
+
+  const plateExercise = exercises.find((ex) => ex.id === plateExerciseId);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Carregando...</div>
+      </div>
+    );
+  }
+
   return (
-    <div className="min-h-screen p-4 md:p-8 bg-background">
+    <div className={`min-h-screen p-4 md:p-8 bg-background ${rest.timer ? 'pb-36' : ''}`}>
       <div className="max-w-4xl mx-auto">
         <motion.div
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: 1, y: 0 }}
           className="flex items-center gap-4 mb-8"
         >
-          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+          <Button variant="ghost" size="icon" onClick={() => navigate(workoutId ? '/history' : '/')}>
             <ArrowLeft className="w-5 h-5" />
           </Button>
-          <h1 className="text-3xl font-bold">Novo Treino</h1>
+          <h1 className="text-3xl font-bold">{workoutId ? 'Editar Treino' : 'Novo Treino'}</h1>
+          {!workoutId && (isLive || !startedAt) && (
+            <div className="ml-auto flex items-center gap-2">
+              {isLive && startedAt ? (
+                <>
+                  <SessionClock startedAt={startedAt} />
+                  <Button variant="ghost" size="icon" onClick={stopSession} title="Parar cronômetro">
+                    <X className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </>
+              ) : (
+                <Button variant="outline" size="sm" onClick={startSession}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Iniciar treino
+                </Button>
+              )}
+            </div>
+          )}
         </motion.div>
 
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
           <Card className="glass-card p-6 mb-6">
             <div className="space-y-4">
+              {!workoutId && templates.length > 0 && (
+                <div>
+                  <Label>Começar a partir de um modelo</Label>
+                  <Select
+                    onValueChange={(id) => {
+                      const template = templates.find((t) => t.id === id);
+                      if (template) applyTemplate(template);
+                    }}
+                  >
+                    <SelectTrigger className="bg-secondary/50 border-border mt-2">
+                      <SelectValue placeholder="Selecione um modelo" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div>
                 <Label htmlFor="name">Nome do Treino</Label>
                 <Input
@@ -150,6 +1094,56 @@ const Workout = () => {
                   className="bg-secondary/50 border-border mt-2"
                 />
               </div>
+              {!isLive && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div>
+                    <Label>Data</Label>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button
+                          variant="outline"
+                          className="w-full justify-start font-normal bg-secondary/50 border-border mt-2"
+                        >
+                          <CalendarDays className="w-4 h-4 mr-2" />
+                          {formatDateKey(displayedDate, { day: 'numeric', month: 'short', year: 'numeric' })}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          required
+                          selected={parseDateKey(displayedDate)}
+                          defaultMonth={parseDateKey(displayedDate)}
+                          onSelect={(day) => day && changeDate(toDateKey(day))}
+                          disabled={{ after: parseDateKey(dateKeyIn(Date.now(), preferences.timezone)) }}
+                          weekStartsOn={preferences.weekStart}
+                          locale={ptBR}
+                        />
+                      </PopoverContent>
+                    </Popover>
+                  </div>
+                  <div>
+                    <Label htmlFor="start-time">Início</Label>
+                    <Input
+                      id="start-time"
+                      type="time"
+                      value={startTime}
+                      onChange={(e) => updateSessionTimes(displayedDate, e.target.value, endTime)}
+                      className="bg-secondary/50 border-border mt-2"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="end-time">Fim</Label>
+                    <Input
+                      id="end-time"
+                      type="time"
+                      value={endTime}
+                      onChange={(e) => updateSessionTimes(displayedDate, startTime, e.target.value)}
+                      className="bg-secondary/50 border-border mt-2"
+                    />
+                  </div>
+                </div>
+              )}
               <div>
                 <Label htmlFor="notes">Observações</Label>
                 <Textarea
@@ -172,83 +1166,50 @@ const Workout = () => {
           </div>
 
           <div className="space-y-4 mb-6">
-            {exercises.map((exercise, index) => (
-              <motion.div
-                key={exercise.id}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: index * 0.05 }}
-              >
-                <Card className="glass-card p-4">
-                  <div className="flex justify-between items-start mb-4">
-                    <h3 className="font-semibold text-lg">Exercício {index + 1}</h3>
+            {exerciseBlocks(exercises).map((block) => {
+              if (!block.group_type) return renderExercise(block.exercises[0]);
+
+              const upNext = nextGroupSet(block.exercises);
+              return (
+                <div key={block.key} className="rounded-xl border border-primary/40 p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-primary">{block.letter}</span>
+                    <Select
+                      value={block.group_type}
+                      onValueChange={(value) => changeGroupType(block.key, value as GroupType)}
+                    >
+                      <SelectTrigger className="h-8 w-32 bg-secondary/50 border-border text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(GROUP_TYPE_LABELS) as GroupType[]).map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {GROUP_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-xs text-muted-foreground">Descanso ao fim de cada rodada</span>
                     <Button
                       variant="ghost"
-                      size="icon"
-                      onClick={() => removeExercise(exercise.id)}
+                      size="sm"
+                      className="ml-auto"
+                      onClick={() => dissolveGroup(block.key)}
                     >
-                      <Trash2 className="w-4 h-4 text-destructive" />
+                      <Unlink className="w-4 h-4 mr-2" />
+                      Desagrupar
                     </Button>
                   </div>
-
-                  <div className="space-y-3">
-                    <div>
-                      <Label>Nome do Exercício</Label>
-                      <Input
-                        placeholder="Ex: Supino Reto"
-                        value={exercise.name}
-                        onChange={(e) => updateExercise(exercise.id, 'name', e.target.value)}
-                        className="bg-secondary/50 border-border mt-1"
-                      />
-                    </div>
-
-                    <div className="grid grid-cols-3 gap-3">
-                      <div>
-                        <Label>Séries</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          value={exercise.sets || ''}
-                          onChange={(e) => updateExercise(exercise.id, 'sets', parseInt(e.target.value) || 0)}
-                          className="bg-secondary/50 border-border mt-1"
-                        />
-                      </div>
-                      <div>
-                        <Label>Reps</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          value={exercise.reps || ''}
-                          onChange={(e) => updateExercise(exercise.id, 'reps', parseInt(e.target.value) || 0)}
-                          className="bg-secondary/50 border-border mt-1"
-                        />
-                      </div>
-                      <div>
-                        <Label>Peso (kg)</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          step="0.5"
-                          value={exercise.weight || ''}
-                          onChange={(e) => updateExercise(exercise.id, 'weight', parseFloat(e.target.value) || 0)}
-                          className="bg-secondary/50 border-border mt-1"
-                        />
-                      </div>
-                    </div>
-
-                    <div>
-                      <Label>Observações</Label>
-                      <Input
-                        placeholder="Ex: Aumentar peso na próxima vez"
-                        value={exercise.notes}
-                        onChange={(e) => updateExercise(exercise.id, 'notes', e.target.value)}
-                        className="bg-secondary/50 border-border mt-1"
-                      />
-                    </div>
-                  </div>
-                </Card>
-              </motion.div>
-            ))}
+                  {block.exercises.map((exercise, position) =>
+                    renderExercise(
+                      exercise,
+                      `${block.letter}${position + 1}`,
+                      upNext?.exerciseId === exercise.id ? upNext.setId : null
+                    )
+                  )}
+                </div>
+              );
+            })}
 
             {exercises.length === 0 && (
               <Card className="glass-card p-12 text-center">
@@ -267,11 +1228,32 @@ const Workout = () => {
             className="w-full bg-primary text-primary-foreground neon-glow"
             size="lg"
           >
-            <Save className="w-5 h-5 mr-2" />
-            {saving ? 'Salvando...' : 'Salvar Treino'}
+            {isLive ? <Flag className="w-5 h-5 mr-2" /> : <Save className="w-5 h-5 mr-2" />}
+            {saving ? 'Salvando...' : isLive ? 'Finalizar Treino' : 'Salvar Treino'}
           </Button>
         </motion.div>
       </div>
+
+      {plateExercise && (
+        <PlateCalculator
+          open
+          onOpenChange={(open) => !open && setPlateExerciseId(null)}
+          exerciseName={plateExercise.name}
+          unit={weightUnitOf(plateExercise)}
+          workingWeight={toUnit(workingWeightOf(plateExercise), weightUnitOf(plateExercise))}
+          onInsertWarmups={(warmups) => insertWarmups(plateExercise, warmups)}
+        />
+      )}
+
+      {rest.timer && (
+        <RestTimer
+          timer={rest.timer}
+          remaining={rest.remaining}
+          finished={rest.finished}
+          onAdjust={rest.adjust}
+          onStop={rest.stop}
+        />
+      )}
     </div>
   );
 };
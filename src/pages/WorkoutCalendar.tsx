@@ -0,0 +1,557 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+  addDays,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  ArrowLeft,
+  CalendarDays,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  Play,
+  Plus,
+  Save,
+  SkipForward,
+  Trash2,
+  Undo2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { dateKeyIn, parseDateKey, toDateKey, todayIn, WEEK_START_LABELS, type WeekStart } from '@/lib/dates';
+import {
+  createPlannedWorkout,
+  fetchPlannedWorkouts,
+  PLAN_STATUS_LABELS,
+  planAdherence,
+  savePlannedWorkout,
+  setPlanStatus,
+  type PlannedWorkout,
+  type PlanStatus,
+} from '@/lib/plans';
+import { formatSessionLength, sessionSeconds } from '@/lib/session';
+import { fetchTemplates, type TemplatePayload } from '@/lib/templates';
+import { cn } from '@/lib/utils';
+
+type View = 'month' | 'week';
+
+const VIEW_LABELS: Record<View, string> = {
+  month: 'Mês',
+  week: 'Semana',
+};
+
+interface LoggedWorkout {
+  id: string;
+  name: string;
+  date: string;
+  started_at: string | null;
+  ended_at: string | null;
+}
+
+const NO_TEMPLATE = 'none';
+
+const PLAN_STATUS_STYLES: Record<PlanStatus, string> = {
+  planned: 'border border-dashed border-primary text-primary',
+  done: 'bg-primary/20 text-primary',
+  skipped: 'bg-secondary/50 text-muted-foreground line-through',
+};
+
+const WorkoutCalendar = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { pending, syncVersion } = useOutbox();
+  const { preferences, updatePreferences } = usePreferences();
+  const [view, setView] = useState<View>('month');
+  const [selected, setSelected] = useState(() => new Date());
+  // Month shown by the day picker, which can be paged away from the selection
+  const [month, setMonth] = useState(() => new Date());
+  const [workouts, setWorkouts] = useState<LoggedWorkout[]>([]);
+  const [plans, setPlans] = useState<PlannedWorkout[]>([]);
+  const [templates, setTemplates] = useState<TemplatePayload[]>([]);
+  const [editing, setEditing] = useState<PlannedWorkout | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const today = todayIn(preferences.timezone);
+
+  // The month view includes the outside days the picker shows
+  const from = toDateKey(
+    view === 'month'
+      ? startOfWeek(startOfMonth(month), { weekStartsOn: preferences.weekStart })
+      : startOfWeek(selected, { weekStartsOn: preferences.weekStart })
+  );
+  const to = toDateKey(
+    view === 'month'
+      ? endOfWeek(endOfMonth(month), { weekStartsOn: preferences.weekStart })
+      : endOfWeek(selected, { weekStartsOn: preferences.weekStart })
+  );
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    fetchTemplates().then(setTemplates, () => setTemplates([]));
+  }, [user, navigate]);
+
+  useEffect(() => {
+    if (user) fetchPeriod();
+  }, [user, from, to, syncVersion]);
+
+  const fetchPeriod = async () => {
+    try {
+      const [logged, planned] = await Promise.all([
+        supabase
+          .from('workouts')
+          .select('id, name, date, started_at, ended_at')
+          .gte('date', from)
+          .lte('date', to)
+          .order('date'),
+        fetchPlannedWorkouts(from, to),
+      ]);
+
+      if (logged.error) throw logged.error;
+
+      setWorkouts(logged.data || []);
+      setPlans(planned);
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar calendário',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitPlan = async () => {
+    if (!user || !editing) return;
+
+    if (!editing.name.trim()) {
+      toast({
+        title: 'Nome do treino obrigatório',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await savePlannedWorkout(user.id, { ...editing, name: editing.name.trim() });
+      toast({ title: 'Treino planejado!' });
+      setEditing(null);
+      fetchPeriod();
+    } catch (error) {
+      toast({
+        title: 'Erro ao planejar treino',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeStatus = async (plan: PlannedWorkout, status: PlanStatus) => {
+    try {
+      await setPlanStatus(plan.id, status);
+      setPlans(plans.map((p) => (p.id === plan.id ? { ...p, status } : p)));
+    } catch (error) {
+      toast({
+        title: 'Erro ao atualizar treino planejado',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const deletePlan = async (id: string) => {
+    try {
+      const { error } = await supabase.from('planned_workouts').delete().eq('id', id);
+
+      if (error) throw error;
+
+      setPlans(plans.filter((p) => p.id !== id));
+    } catch (error) {
+      toast({
+        title: 'Erro ao excluir treino planejado',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const startPlan = (plan: PlannedWorkout) =>
+    navigate(`/workout?plan=${plan.id}${plan.template_id ? `&template=${plan.template_id}` : ''}`);
+
+  // Workouts still in the outbox show up on the day they were saved
+  const pendingWorkouts: LoggedWorkout[] = pending
+    .filter((entry) => !workouts.some((w) => w.id === entry.id))
+    .map((entry) => ({
+      id: entry.id,
+      name: entry.payload.name,
+      date: entry.payload.date ?? dateKeyIn(entry.createdAt, preferences.timezone),
+      started_at: entry.payload.started_at,
+      ended_at: entry.payload.ended_at,
+    }))
+    .filter((workout) => workout.date >= from && workout.date <= to);
+  const allWorkouts = [...pendingWorkouts, ...workouts];
+
+  const workoutsOn = (key: string) => allWorkouts.filter((workout) => workout.date === key);
+  const plansOn = (key: string) => plans.filter((plan) => plan.date === key);
+
+  const adherence = planAdherence(plans, today);
+  const selectedKey = toDateKey(selected);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-primary">Carregando...</div>
+      </div>
+    );
+  }
+
+  const renderWeek = () => {
+    const start = startOfWeek(selected, { weekStartsOn: preferences.weekStart });
+
+    return (
+      <Card className="glass-card p-4">
+        <div className="flex items-center justify-between mb-4">
+          <Button variant="ghost" size="icon" onClick={() => setSelected(addWeeks(selected, -1))}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <p className="text-sm font-medium">
+            {format(start, "d 'de' MMM", { locale: ptBR })} –{' '}
+            {format(addDays(start, 6), "d 'de' MMM", { locale: ptBR })}
+          </p>
+          <Button variant="ghost" size="icon" onClick={() => setSelected(addWeeks(selected, 1))}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+          {Array.from({ length: 7 }, (_, index) => {
+            const day = addDays(start, index);
+            const key = toDateKey(day);
+            return (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setSelected(day)}
+                className={cn(
+                  'min-h-24 rounded-lg p-1 text-left space-y-1 transition-colors hover:bg-secondary/50',
+                  isSameDay(day, selected) && 'bg-secondary/50 ring-1 ring-primary',
+                  key === today && 'font-semibold'
+                )}
+              >
+                <p className="text-xs text-muted-foreground capitalize">
+                  {format(day, 'EEE d', { locale: ptBR })}
+                </p>
+                {workoutsOn(key).map((workout) => (
+                  <p key={workout.id} className="text-[0.7rem] truncate rounded bg-primary text-primary-foreground px-1">
+                    {workout.name}
+                  </p>
+                ))}
+                {plansOn(key).map((plan) => (
+                  <p key={plan.id} className={cn('text-[0.7rem] truncate rounded px-1', PLAN_STATUS_STYLES[plan.status])}>
+                    {plan.name}
+                  </p>
+                ))}
+              </button>
+            );
+          })}
+        </div>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-background">
+      <div className="max-w-4xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between gap-4 mb-8"
+        >
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-primary/10 rounded-xl">
+                <CalendarDays className="w-6 h-6 text-primary" />
+              </div>
+              <h1 className="text-3xl font-bold">Calendário</h1>
+            </div>
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={String(preferences.weekStart)}
+              onValueChange={(value) => value && updatePreferences({ weekStart: Number(value) as WeekStart })}
+              title="Início da semana"
+            >
+              {(Object.keys(WEEK_START_LABELS) as `${WeekStart}`[]).map((key) => (
+                <ToggleGroupItem key={key} value={key}>
+                  {WEEK_START_LABELS[Number(key) as WeekStart]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={view}
+              onValueChange={(value) => {
+                if (!value) return;
+                setView(value as View);
+                setMonth(selected);
+              }}
+            >
+              {(Object.keys(VIEW_LABELS) as View[]).map((key) => (
+                <ToggleGroupItem key={key} value={key}>
+                  {VIEW_LABELS[key]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        </motion.div>
+
+        <div className="space-y-6">
+          <Card className="glass-card p-4 flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">
+                Aderência {view === 'month' ? 'no mês' : 'na semana'}
+              </p>
+              <p className="text-2xl font-bold">
+                {adherence.rate != null ? `${Math.round(adherence.rate * 100)}%` : '—'}
+              </p>
+            </div>
+            <p className="text-sm text-muted-foreground text-right">
+              {adherence.done} {adherence.done === 1 ? 'feito' : 'feitos'} · {adherence.skipped}{' '}
+              {adherence.skipped === 1 ? 'pulado' : 'pulados'} · {adherence.missed}{' '}
+              {adherence.missed === 1 ? 'perdido' : 'perdidos'}
+            </p>
+          </Card>
+
+          {view === 'month' ? (
+            <Card className="glass-card p-2 flex justify-center">
+              <Calendar
+                mode="single"
+                required
+                selected={selected}
+                onSelect={(day) => day && setSelected(day)}
+                month={month}
+                onMonthChange={setMonth}
+                weekStartsOn={preferences.weekStart}
+                locale={ptBR}
+                modifiers={{
+                  trained: allWorkouts.map((workout) => parseDateKey(workout.date)),
+                  planned: plans.filter((plan) => plan.status === 'planned').map((plan) => parseDateKey(plan.date)),
+                }}
+                modifiersClassNames={{
+                  trained: 'bg-primary/20 text-primary font-semibold',
+                  planned: 'border border-dashed border-primary',
+                }}
+              />
+            </Card>
+          ) : (
+            renderWeek()
+          )}
+
+          <Card className="glass-card p-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="font-semibold capitalize">
+                {format(selected, "EEEE, d 'de' MMMM", { locale: ptBR })}
+              </h2>
+              {selectedKey >= today && (
+                <Button size="sm" variant="outline" onClick={() => setEditing(createPlannedWorkout(selectedKey))}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Planejar
+                </Button>
+              )}
+            </div>
+
+            {workoutsOn(selectedKey).length === 0 && plansOn(selectedKey).length === 0 && (
+              <p className="text-sm text-muted-foreground">Nada registrado ou planejado.</p>
+            )}
+
+            {workoutsOn(selectedKey).map((workout) => {
+              const duration = sessionSeconds(workout.started_at, workout.ended_at);
+              return (
+                <button
+                  key={workout.id}
+                  type="button"
+                  onClick={() => navigate(`/workout/${workout.id}`)}
+                  className="w-full flex items-center justify-between gap-4 p-3 rounded-lg bg-primary/10 text-left hover:bg-primary/20 transition-colors"
+                >
+                  <span className="font-medium">{workout.name}</span>
+                  {duration != null && (
+                    <span className="text-sm text-muted-foreground">{formatSessionLength(duration)}</span>
+                  )}
+                </button>
+              );
+            })}
+
+            {plansOn(selectedKey).map((plan) => (
+              <div key={plan.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-secondary/20">
+                <div className="min-w-0">
+                  <p className={cn('font-medium truncate', plan.status === 'skipped' && 'line-through')}>
+                    {plan.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {PLAN_STATUS_LABELS[plan.status]}
+                    {plan.status === 'planned' && plan.date < today && ' · perdido'}
+                    {plan.notes && ` · ${plan.notes}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {plan.status === 'planned' ? (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => startPlan(plan)} title="Iniciar treino">
+                        <Play className="w-4 h-4 text-primary" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => changeStatus(plan, 'done')}
+                        title="Marcar como feito"
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => changeStatus(plan, 'skipped')} title="Pular">
+                        <SkipForward className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditing(plan)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Button variant="ghost" size="icon" onClick={() => changeStatus(plan, 'planned')} title="Reabrir">
+                      <Undo2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" onClick={() => deletePlan(plan.id)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {plans.some((p) => p.id === editing?.id) ? 'Editar Treino Planejado' : 'Planejar Treino'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              {templates.length > 0 && (
+                <div>
+                  <Label>Modelo</Label>
+                  <Select
+                    value={editing.template_id ?? NO_TEMPLATE}
+                    onValueChange={(value) => {
+                      const template = templates.find((t) => t.id === value);
+                      setEditing({
+                        ...editing,
+                        template_id: template?.id ?? null,
+                        name: editing.name || template?.name || '',
+                      });
+                    }}
+                  >
+                    <SelectTrigger className="bg-secondary/50 border-border mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TEMPLATE}>Nenhum</SelectItem>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="plan-name">Nome</Label>
+                <Input
+                  id="plan-name"
+                  placeholder="Ex: Treino A"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  className="bg-secondary/50 border-border mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="plan-date">Data</Label>
+                <Input
+                  id="plan-date"
+                  type="date"
+                  min={today}
+                  value={editing.date}
+                  onChange={(e) => e.target.value && setEditing({ ...editing, date: e.target.value })}
+                  className="bg-secondary/50 border-border mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="plan-notes">Observações</Label>
+                <Textarea
+                  id="plan-notes"
+                  value={editing.notes}
+                  onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                  className="bg-secondary/50 border-border mt-2"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button onClick={submitPlan} disabled={saving} className="bg-primary text-primary-foreground neon-glow">
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Salvando...' : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default WorkoutCalendar;
@@ -0,0 +1,67 @@
+-- Create exercise_sets table
+CREATE TABLE IF NOT EXISTS public.exercise_sets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  exercise_id UUID NOT NULL REFERENCES public.exercises(id) ON DELETE CASCADE,
+  set_number INTEGER NOT NULL,
+  reps INTEGER NOT NULL DEFAULT 0,
+  weight DECIMAL(10, 2) DEFAULT 0,
+  completed BOOLEAN NOT NULL DEFAULT true,
+  set_type TEXT NOT NULL DEFAULT 'normal'
+    CHECK (set_type IN ('normal', 'warmup', 'drop', 'failure')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (exercise_id, set_number)
+);
+
+CREATE INDEX IF NOT EXISTS exercise_sets_exercise_id_idx
+  ON public.exercise_sets (exercise_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.exercise_sets ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for exercise_sets
+CREATE POLICY "Users can view sets from their workouts"
+  ON public.exercise_sets FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.exercises
+    JOIN public.workouts ON workouts.id = exercises.workout_id
+    WHERE exercises.id = exercise_sets.exercise_id
+    AND workouts.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create sets in their workouts"
+  ON public.exercise_sets FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.exercises
+    JOIN public.workouts ON workouts.id = exercises.workout_id
+    WHERE exercises.id = exercise_sets.exercise_id
+    AND workouts.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update sets in their workouts"
+  ON public.exercise_sets FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.exercises
+    JOIN public.workouts ON workouts.id = exercises.workout_id
+    WHERE exercises.id = exercise_sets.exercise_id
+    AND workouts.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete sets from their workouts"
+  ON public.exercise_sets FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.exercises
+    JOIN public.workouts ON workouts.id = exercises.workout_id
+    WHERE exercises.id = exercise_sets.exercise_id
+    AND workouts.user_id = auth.uid()
+  ));
+
+-- Migrate legacy sets/reps/weight triples into one row per set.
+-- The summary columns on exercises are kept so older clients keep working,
+-- but exercise_sets is the source of truth from now on.
+INSERT INTO public.exercise_sets (exercise_id, set_number, reps, weight, completed, set_type)
+SELECT e.id, s.n, e.reps, COALESCE(e.weight, 0), true, 'normal'
+FROM public.exercises e
+CROSS JOIN LATERAL generate_series(1, e.sets) AS s(n)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.exercise_sets es WHERE es.exercise_id = e.id
+);
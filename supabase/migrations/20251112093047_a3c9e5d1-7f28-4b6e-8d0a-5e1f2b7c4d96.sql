@@ -0,0 +1,82 @@
+-- Save a workout with all of its exercises and sets in a single transaction.
+-- The payload carries client-generated ids so the call is idempotent: saving
+-- the same payload twice updates the existing rows instead of duplicating them.
+CREATE OR REPLACE FUNCTION public.save_workout(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+  v_exercises JSONB := COALESCE(payload->'exercises', '[]'::JSONB);
+  v_exercise JSONB;
+  v_exercise_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Workout name is required';
+  END IF;
+
+  INSERT INTO public.workouts (id, user_id, name, notes)
+  VALUES (v_workout_id, auth.uid(), payload->>'name', payload->>'notes')
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes
+    WHERE workouts.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', v_workout_id;
+  END IF;
+
+  -- Exercises dropped from the payload are removed (their sets cascade)
+  DELETE FROM public.exercises
+  WHERE workout_id = v_workout_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID
+      FROM jsonb_array_elements(v_exercises) AS e
+      WHERE NULLIF(e->>'id', '') IS NOT NULL
+    );
+
+  FOR v_exercise IN SELECT * FROM jsonb_array_elements(v_exercises) LOOP
+    v_exercise_id := COALESCE(NULLIF(v_exercise->>'id', '')::UUID, gen_random_uuid());
+
+    INSERT INTO public.exercises (id, workout_id, name, notes, sets)
+    VALUES (
+      v_exercise_id,
+      v_workout_id,
+      v_exercise->>'name',
+      v_exercise->>'notes',
+      jsonb_array_length(COALESCE(v_exercise->'sets', '[]'::JSONB))
+    )
+    ON CONFLICT (id) DO UPDATE
+      SET name = EXCLUDED.name,
+          notes = EXCLUDED.notes,
+          sets = EXCLUDED.sets
+      WHERE exercises.workout_id = v_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Exercise % belongs to another workout', v_exercise_id;
+    END IF;
+
+    DELETE FROM public.exercise_sets WHERE exercise_id = v_exercise_id;
+
+    INSERT INTO public.exercise_sets (exercise_id, set_number, reps, weight, completed, set_type)
+    SELECT
+      v_exercise_id,
+      s.ordinality,
+      COALESCE((s.value->>'reps')::INTEGER, 0),
+      COALESCE((s.value->>'weight')::DECIMAL, 0),
+      COALESCE((s.value->>'completed')::BOOLEAN, true),
+      COALESCE(s.value->>'set_type', 'normal')
+    FROM jsonb_array_elements(COALESCE(v_exercise->'sets', '[]'::JSONB)) WITH ORDINALITY AS s(value, ordinality);
+  END LOOP;
+
+  RETURN v_workout_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_workout(JSONB) TO authenticated;
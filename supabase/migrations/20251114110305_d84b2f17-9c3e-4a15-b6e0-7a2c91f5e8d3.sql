@@ -0,0 +1,7 @@
+-- Support keyset pagination of the workout history (date DESC, id DESC)
+CREATE INDEX IF NOT EXISTS workouts_user_id_date_id_idx
+  ON public.workouts (user_id, date DESC, id DESC);
+
+-- Foreign keys are not indexed automatically; embedded selects join on them
+CREATE INDEX IF NOT EXISTS exercises_workout_id_idx
+  ON public.exercises (workout_id);
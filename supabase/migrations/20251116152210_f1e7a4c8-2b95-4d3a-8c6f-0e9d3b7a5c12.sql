@@ -0,0 +1,62 @@
+-- Dashboard statistics computed over the user's whole history.
+-- "Today" is taken in the caller's timezone so late-evening sessions count for
+-- the right week/month, and p_week_start follows EXTRACT(DOW) (0 = Sunday).
+-- The streak counts consecutive weeks with at least one workout, ending at the
+-- current week (or the previous one, while this week has nothing logged yet).
+CREATE OR REPLACE FUNCTION public.dashboard_stats(
+  p_timezone TEXT DEFAULT 'UTC',
+  p_week_start INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  total_workouts BIGINT,
+  this_week BIGINT,
+  this_month BIGINT,
+  total_volume NUMERIC,
+  current_streak INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE p_timezone)::DATE;
+  v_week_start DATE := v_today - ((EXTRACT(DOW FROM v_today)::INTEGER - p_week_start + 7) % 7);
+  v_month_start DATE := date_trunc('month', v_today)::DATE;
+BEGIN
+  RETURN QUERY
+  WITH user_workouts AS (
+    SELECT w.id, w.date
+    FROM public.workouts w
+    WHERE w.user_id = auth.uid()
+  ),
+  weeks AS (
+    SELECT DISTINCT uw.date - ((EXTRACT(DOW FROM uw.date)::INTEGER - p_week_start + 7) % 7) AS starts_on
+    FROM user_workouts uw
+    WHERE uw.date <= v_today
+  ),
+  ranked_weeks AS (
+    SELECT starts_on, ROW_NUMBER() OVER (ORDER BY starts_on DESC) AS position
+    FROM weeks
+  )
+  SELECT
+    (SELECT COUNT(*) FROM user_workouts),
+    (SELECT COUNT(*) FROM user_workouts uw WHERE uw.date BETWEEN v_week_start AND v_today),
+    (SELECT COUNT(*) FROM user_workouts uw WHERE uw.date BETWEEN v_month_start AND v_today),
+    (
+      SELECT COALESCE(SUM(es.reps * COALESCE(es.weight, 0)), 0)
+      FROM user_workouts uw
+      JOIN public.exercises e ON e.workout_id = uw.id
+      JOIN public.exercise_sets es ON es.exercise_id = e.id
+      WHERE es.completed AND es.set_type <> 'warmup'
+    ),
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM ranked_weeks rw
+      WHERE (SELECT MAX(starts_on) FROM weeks) >= v_week_start - 7
+        AND rw.starts_on = (SELECT MAX(starts_on) FROM weeks) - ((rw.position - 1) * 7)::INTEGER
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.dashboard_stats(TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,134 @@
+-- Create workout_templates table
+CREATE TABLE IF NOT EXISTS public.workout_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create template_exercises table
+CREATE TABLE IF NOT EXISTS public.template_exercises (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.workout_templates(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  notes TEXT,
+  target_sets INTEGER NOT NULL DEFAULT 3,
+  target_reps INTEGER NOT NULL DEFAULT 0,
+  target_weight DECIMAL(10, 2) DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS template_exercises_template_id_idx
+  ON public.template_exercises (template_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.workout_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.template_exercises ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for workout_templates
+CREATE POLICY "Users can view their own templates"
+  ON public.workout_templates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own templates"
+  ON public.workout_templates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own templates"
+  ON public.workout_templates FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own templates"
+  ON public.workout_templates FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for template_exercises
+CREATE POLICY "Users can view exercises from their templates"
+  ON public.template_exercises FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.workout_templates
+    WHERE workout_templates.id = template_exercises.template_id
+    AND workout_templates.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create exercises in their templates"
+  ON public.template_exercises FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.workout_templates
+    WHERE workout_templates.id = template_exercises.template_id
+    AND workout_templates.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update exercises in their templates"
+  ON public.template_exercises FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.workout_templates
+    WHERE workout_templates.id = template_exercises.template_id
+    AND workout_templates.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete exercises from their templates"
+  ON public.template_exercises FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.workout_templates
+    WHERE workout_templates.id = template_exercises.template_id
+    AND workout_templates.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_workout_templates_updated_at
+  BEFORE UPDATE ON public.workout_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Save a template and its exercise list in one transaction, same contract as
+-- save_workout: client-generated ids, exercises replaced wholesale.
+CREATE OR REPLACE FUNCTION public.save_template(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_template_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Template name is required';
+  END IF;
+
+  INSERT INTO public.workout_templates (id, user_id, name, notes)
+  VALUES (v_template_id, auth.uid(), payload->>'name', payload->>'notes')
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes
+    WHERE workout_templates.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template % not found', v_template_id;
+  END IF;
+
+  DELETE FROM public.template_exercises WHERE template_id = v_template_id;
+
+  INSERT INTO public.template_exercises
+    (template_id, position, name, notes, target_sets, target_reps, target_weight)
+  SELECT
+    v_template_id,
+    e.ordinality,
+    e.value->>'name',
+    e.value->>'notes',
+    COALESCE((e.value->>'target_sets')::INTEGER, 3),
+    COALESCE((e.value->>'target_reps')::INTEGER, 0),
+    COALESCE((e.value->>'target_weight')::DECIMAL, 0)
+  FROM jsonb_array_elements(COALESCE(payload->'exercises', '[]'::JSONB)) WITH ORDINALITY AS e(value, ordinality);
+
+  RETURN v_template_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_template(JSONB) TO authenticated;
@@ -0,0 +1,440 @@
+-- Normalization shared by catalog lookups and the legacy name mapping
+CREATE OR REPLACE FUNCTION public.normalize_exercise_name(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(trim(p_name), '\s+', ' ', 'g'));
+$$;
+
+-- Create exercise_catalog table
+CREATE TABLE IF NOT EXISTS public.exercise_catalog (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  primary_muscles TEXT[] NOT NULL DEFAULT '{}',
+  secondary_muscles TEXT[] NOT NULL DEFAULT '{}',
+  equipment TEXT NOT NULL,
+  movement_pattern TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The catalog is shared, read-only reference data
+ALTER TABLE public.exercise_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the exercise catalog"
+  ON public.exercise_catalog FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Link logged exercises to the catalog
+ALTER TABLE public.exercises
+  ADD COLUMN IF NOT EXISTS exercise_catalog_id UUID
+  REFERENCES public.exercise_catalog(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS exercises_exercise_catalog_id_idx
+  ON public.exercises (exercise_catalog_id);
+
+-- Seed the catalog
+INSERT INTO public.exercise_catalog (name, aliases, primary_muscles, secondary_muscles, equipment, movement_pattern)
+VALUES
+  -- Peito
+  ('Supino Reto com Barra', ARRAY['Supino Reto', 'Bench Press', 'Barbell Bench Press', 'Supino'], ARRAY['chest'], ARRAY['front_delts', 'triceps'], 'barbell', 'horizontal_push'),
+  ('Supino Inclinado com Barra', ARRAY['Supino Inclinado', 'Incline Bench Press', 'Incline Barbell Bench Press'], ARRAY['chest'], ARRAY['front_delts', 'triceps'], 'barbell', 'horizontal_push'),
+  ('Supino Declinado com Barra', ARRAY['Supino Declinado', 'Decline Bench Press'], ARRAY['chest'], ARRAY['triceps', 'front_delts'], 'barbell', 'horizontal_push'),
+  ('Supino Reto com Halteres', ARRAY['Dumbbell Bench Press', 'Supino Halteres'], ARRAY['chest'], ARRAY['front_delts', 'triceps'], 'dumbbell', 'horizontal_push'),
+  ('Supino Inclinado com Halteres', ARRAY['Incline Dumbbell Press', 'Supino Inclinado Halteres'], ARRAY['chest'], ARRAY['front_delts', 'triceps'], 'dumbbell', 'horizontal_push'),
+  ('Supino Declinado com Halteres', ARRAY['Decline Dumbbell Press'], ARRAY['chest'], ARRAY['triceps', 'front_delts'], 'dumbbell', 'horizontal_push'),
+  ('Supino Fechado', ARRAY['Close-Grip Bench Press', 'Supino Pegada Fechada'], ARRAY['triceps'], ARRAY['chest', 'front_delts'], 'barbell', 'horizontal_push'),
+  ('Supino no Smith', ARRAY['Smith Machine Bench Press', 'Supino Reto Smith'], ARRAY['chest'], ARRAY['front_delts', 'triceps'], 'smith', 'horizontal_push'),
+  ('Supino Inclinado no Smith', ARRAY['Smith Machine Incline Press'], ARRAY['chest'], ARRAY['front_delts', 'triceps'], 'smith', 'horizontal_push'),
+  ('Supino Máquina', ARRAY['Machine Chest Press', 'Chest Press', 'Supino Articulado'], ARRAY['chest'], ARRAY['front_delts', 'triceps'], 'machine', 'horizontal_push'),
+  ('Supino Inclinado Máquina', ARRAY['Incline Machine Press', 'Supino Inclinado Articulado'], ARRAY['chest'], ARRAY['front_delts', 'triceps'], 'machine', 'horizontal_push'),
+  ('Crucifixo com Halteres', ARRAY['Dumbbell Fly', 'Crucifixo Reto', 'Dumbbell Flyes'], ARRAY['chest'], ARRAY['front_delts'], 'dumbbell', 'isolation'),
+  ('Crucifixo Inclinado com Halteres', ARRAY['Incline Dumbbell Fly', 'Crucifixo Inclinado'], ARRAY['chest'], ARRAY['front_delts'], 'dumbbell', 'isolation'),
+  ('Crucifixo Máquina', ARRAY['Pec Deck', 'Voador', 'Peck Deck', 'Machine Fly'], ARRAY['chest'], ARRAY['front_delts'], 'machine', 'isolation'),
+  ('Crossover', ARRAY['Cable Crossover', 'Cross Over', 'Cable Fly'], ARRAY['chest'], ARRAY['front_delts'], 'cable', 'isolation'),
+  ('Crossover Polia Baixa', ARRAY['Low Cable Fly', 'Low-to-High Cable Fly'], ARRAY['chest'], ARRAY['front_delts'], 'cable', 'isolation'),
+  ('Flexão de Braço', ARRAY['Push-Up', 'Flexão', 'Push Up'], ARRAY['chest'], ARRAY['triceps', 'front_delts', 'abs'], 'bodyweight', 'horizontal_push'),
+  ('Flexão Diamante', ARRAY['Diamond Push-Up'], ARRAY['triceps'], ARRAY['chest', 'front_delts'], 'bodyweight', 'horizontal_push'),
+  ('Flexão Declinada', ARRAY['Decline Push-Up', 'Flexão com Pés Elevados'], ARRAY['chest'], ARRAY['front_delts', 'triceps'], 'bodyweight', 'horizontal_push'),
+  ('Mergulho nas Paralelas', ARRAY['Dips', 'Chest Dip', 'Paralelas'], ARRAY['chest'], ARRAY['triceps', 'front_delts'], 'bodyweight', 'vertical_push'),
+  ('Pullover com Halter', ARRAY['Dumbbell Pullover', 'Pullover'], ARRAY['chest'], ARRAY['lats', 'triceps'], 'dumbbell', 'isolation'),
+  ('Svend Press', ARRAY['Plate Press'], ARRAY['chest'], ARRAY['front_delts'], 'other', 'isolation'),
+  ('Supino com Kettlebell no Chão', ARRAY['Kettlebell Floor Press', 'Floor Press'], ARRAY['chest'], ARRAY['triceps'], 'kettlebell', 'horizontal_push'),
+  ('Floor Press com Barra', ARRAY['Barbell Floor Press'], ARRAY['chest'], ARRAY['triceps', 'front_delts'], 'barbell', 'horizontal_push'),
+  -- Costas
+  ('Barra Fixa', ARRAY['Pull-Up', 'Pull Up', 'Barra Fixa Pronada'], ARRAY['lats'], ARRAY['biceps', 'upper_back', 'forearms'], 'bodyweight', 'vertical_pull'),
+  ('Barra Fixa Supinada', ARRAY['Chin-Up', 'Chin Up'], ARRAY['lats'], ARRAY['biceps', 'upper_back'], 'bodyweight', 'vertical_pull'),
+  ('Barra Fixa Neutra', ARRAY['Neutral-Grip Pull-Up'], ARRAY['lats'], ARRAY['biceps', 'upper_back'], 'bodyweight', 'vertical_pull'),
+  ('Barra Fixa Assistida', ARRAY['Assisted Pull-Up', 'Gravitron'], ARRAY['lats'], ARRAY['biceps', 'upper_back'], 'machine', 'vertical_pull'),
+  ('Puxada Frontal', ARRAY['Lat Pulldown', 'Puxada Alta', 'Pulldown', 'Puxada Aberta'], ARRAY['lats'], ARRAY['biceps', 'upper_back'], 'cable', 'vertical_pull'),
+  ('Puxada Supinada', ARRAY['Reverse-Grip Lat Pulldown', 'Puxada Pegada Supinada'], ARRAY['lats'], ARRAY['biceps'], 'cable', 'vertical_pull'),
+  ('Puxada Triângulo', ARRAY['Close-Grip Lat Pulldown', 'Puxada Neutra', 'Puxada com Triângulo'], ARRAY['lats'], ARRAY['biceps', 'upper_back'], 'cable', 'vertical_pull'),
+  ('Puxada Unilateral na Polia', ARRAY['Single-Arm Lat Pulldown'], ARRAY['lats'], ARRAY['biceps'], 'cable', 'vertical_pull'),
+  ('Puxada Máquina', ARRAY['Machine Pulldown', 'Puxada Articulada'], ARRAY['lats'], ARRAY['biceps', 'upper_back'], 'machine', 'vertical_pull'),
+  ('Pulldown com Braços Estendidos', ARRAY['Straight-Arm Pulldown', 'Pullover na Polia'], ARRAY['lats'], ARRAY['triceps'], 'cable', 'isolation'),
+  ('Remada Curvada com Barra', ARRAY['Barbell Row', 'Bent-Over Row', 'Remada Curvada'], ARRAY['upper_back'], ARRAY['lats', 'biceps', 'rear_delts', 'lower_back'], 'barbell', 'horizontal_pull'),
+  ('Remada Curvada Supinada', ARRAY['Underhand Barbell Row', 'Yates Row'], ARRAY['lats'], ARRAY['upper_back', 'biceps'], 'barbell', 'horizontal_pull'),
+  ('Remada Pendlay', ARRAY['Pendlay Row'], ARRAY['upper_back'], ARRAY['lats', 'lower_back', 'rear_delts'], 'barbell', 'horizontal_pull'),
+  ('Remada Cavalinho', ARRAY['T-Bar Row', 'Remada T', 'Remada Cavalinho com Barra'], ARRAY['upper_back'], ARRAY['lats', 'biceps', 'rear_delts'], 'barbell', 'horizontal_pull'),
+  ('Remada Unilateral com Halter', ARRAY['Dumbbell Row', 'One-Arm Dumbbell Row', 'Serrote', 'Remada Serrote'], ARRAY['lats'], ARRAY['upper_back', 'biceps', 'rear_delts'], 'dumbbell', 'horizontal_pull'),
+  ('Remada Baixa', ARRAY['Seated Cable Row', 'Remada Sentada', 'Remada Baixa Triângulo'], ARRAY['upper_back'], ARRAY['lats', 'biceps', 'rear_delts'], 'cable', 'horizontal_pull'),
+  ('Remada Máquina', ARRAY['Machine Row', 'Remada Articulada', 'Seated Machine Row'], ARRAY['upper_back'], ARRAY['lats', 'biceps', 'rear_delts'], 'machine', 'horizontal_pull'),
+  ('Remada Apoiada no Banco', ARRAY['Chest-Supported Row', 'Seal Row', 'Remada Inclinada com Halteres'], ARRAY['upper_back'], ARRAY['lats', 'rear_delts', 'biceps'], 'dumbbell', 'horizontal_pull'),
+  ('Remada Invertida', ARRAY['Inverted Row', 'Australian Pull-Up'], ARRAY['upper_back'], ARRAY['lats', 'biceps', 'rear_delts'], 'bodyweight', 'horizontal_pull'),
+  ('Remada Meadows', ARRAY['Meadows Row'], ARRAY['lats'], ARRAY['upper_back', 'biceps'], 'barbell', 'horizontal_pull'),
+  ('Remada Kroc', ARRAY['Kroc Row'], ARRAY['lats'], ARRAY['upper_back', 'biceps', 'forearms'], 'dumbbell', 'horizontal_pull'),
+  ('Remada no Smith', ARRAY['Smith Machine Row'], ARRAY['upper_back'], ARRAY['lats', 'biceps'], 'smith', 'horizontal_pull'),
+  ('Remada com Kettlebell', ARRAY['Kettlebell Row'], ARRAY['lats'], ARRAY['upper_back', 'biceps'], 'kettlebell', 'horizontal_pull'),
+  ('Remada Unilateral na Polia', ARRAY['Single-Arm Cable Row'], ARRAY['lats'], ARRAY['upper_back', 'biceps'], 'cable', 'horizontal_pull'),
+  ('Levantamento Terra', ARRAY['Deadlift', 'Terra', 'Conventional Deadlift', 'Barbell Deadlift'], ARRAY['hamstrings', 'glutes', 'lower_back'], ARRAY['quads', 'upper_back', 'traps', 'forearms'], 'barbell', 'hinge'),
+  ('Levantamento Terra Sumô', ARRAY['Sumo Deadlift', 'Terra Sumô'], ARRAY['glutes', 'quads'], ARRAY['hamstrings', 'adductors', 'lower_back', 'traps'], 'barbell', 'hinge'),
+  ('Levantamento Terra com Trap Bar', ARRAY['Trap Bar Deadlift', 'Hex Bar Deadlift', 'Terra Hexagonal'], ARRAY['quads', 'glutes'], ARRAY['hamstrings', 'lower_back', 'traps'], 'trap_bar', 'hinge'),
+  ('Rack Pull', ARRAY['Terra Parcial', 'Block Pull'], ARRAY['lower_back', 'upper_back'], ARRAY['glutes', 'hamstrings', 'traps', 'forearms'], 'barbell', 'hinge'),
+  ('Terra com Déficit', ARRAY['Deficit Deadlift'], ARRAY['hamstrings', 'glutes', 'lower_back'], ARRAY['quads', 'upper_back'], 'barbell', 'hinge'),
+  ('Hiperextensão Lombar', ARRAY['Back Extension', 'Hiperextensão', 'Extensão Lombar', '45 Degree Back Extension'], ARRAY['lower_back'], ARRAY['glutes', 'hamstrings'], 'bodyweight', 'hinge'),
+  ('Good Morning', ARRAY['Bom Dia'], ARRAY['hamstrings', 'lower_back'], ARRAY['glutes'], 'barbell', 'hinge'),
+  ('Superman', ARRAY['Superman Hold'], ARRAY['lower_back'], ARRAY['glutes'], 'bodyweight', 'core'),
+  -- Ombros
+  ('Desenvolvimento com Barra', ARRAY['Overhead Press', 'Military Press', 'Desenvolvimento Militar', 'OHP', 'Press Militar'], ARRAY['front_delts'], ARRAY['side_delts', 'triceps', 'upper_back'], 'barbell', 'vertical_push'),
+  ('Desenvolvimento com Halteres', ARRAY['Dumbbell Shoulder Press', 'Desenvolvimento Halteres'], ARRAY['front_delts'], ARRAY['side_delts', 'triceps'], 'dumbbell', 'vertical_push'),
+  ('Desenvolvimento Arnold', ARRAY['Arnold Press'], ARRAY['front_delts'], ARRAY['side_delts', 'triceps'], 'dumbbell', 'vertical_push'),
+  ('Desenvolvimento Máquina', ARRAY['Machine Shoulder Press', 'Desenvolvimento Articulado'], ARRAY['front_delts'], ARRAY['side_delts', 'triceps'], 'machine', 'vertical_push'),
+  ('Desenvolvimento no Smith', ARRAY['Smith Machine Shoulder Press'], ARRAY['front_delts'], ARRAY['side_delts', 'triceps'], 'smith', 'vertical_push'),
+  ('Push Press', ARRAY['Desenvolvimento com Impulso'], ARRAY['front_delts'], ARRAY['side_delts', 'triceps', 'quads'], 'barbell', 'vertical_push'),
+  ('Landmine Press', ARRAY['Desenvolvimento Landmine'], ARRAY['front_delts'], ARRAY['chest', 'triceps'], 'barbell', 'vertical_push'),
+  ('Desenvolvimento com Kettlebell', ARRAY['Kettlebell Press'], ARRAY['front_delts'], ARRAY['side_delts', 'triceps'], 'kettlebell', 'vertical_push'),
+  ('Elevação Lateral com Halteres', ARRAY['Lateral Raise', 'Elevação Lateral', 'Dumbbell Lateral Raise'], ARRAY['side_delts'], ARRAY['traps'], 'dumbbell', 'isolation'),
+  ('Elevação Lateral na Polia', ARRAY['Cable Lateral Raise'], ARRAY['side_delts'], ARRAY['traps'], 'cable', 'isolation'),
+  ('Elevação Lateral Máquina', ARRAY['Machine Lateral Raise'], ARRAY['side_delts'], '{}', 'machine', 'isolation'),
+  ('Elevação Frontal com Halteres', ARRAY['Front Raise', 'Elevação Frontal', 'Dumbbell Front Raise'], ARRAY['front_delts'], ARRAY['side_delts'], 'dumbbell', 'isolation'),
+  ('Elevação Frontal com Anilha', ARRAY['Plate Front Raise'], ARRAY['front_delts'], ARRAY['side_delts'], 'other', 'isolation'),
+  ('Elevação Frontal na Polia', ARRAY['Cable Front Raise'], ARRAY['front_delts'], ARRAY['side_delts'], 'cable', 'isolation'),
+  ('Crucifixo Inverso com Halteres', ARRAY['Reverse Dumbbell Fly', 'Crucifixo Invertido', 'Rear Delt Fly'], ARRAY['rear_delts'], ARRAY['upper_back'], 'dumbbell', 'isolation'),
+  ('Crucifixo Inverso Máquina', ARRAY['Reverse Pec Deck', 'Voador Inverso', 'Rear Delt Machine'], ARRAY['rear_delts'], ARRAY['upper_back'], 'machine', 'isolation'),
+  ('Face Pull', ARRAY['Puxada para o Rosto', 'Face Pulls'], ARRAY['rear_delts'], ARRAY['upper_back', 'traps'], 'cable', 'horizontal_pull'),
+  ('Remada Alta', ARRAY['Upright Row', 'Remada Alta com Barra'], ARRAY['side_delts'], ARRAY['traps', 'front_delts'], 'barbell', 'vertical_pull'),
+  ('Remada Alta na Polia', ARRAY['Cable Upright Row'], ARRAY['side_delts'], ARRAY['traps'], 'cable', 'vertical_pull'),
+  ('Crucifixo Inverso na Polia', ARRAY['Cable Reverse Fly', 'Cable Rear Delt Fly'], ARRAY['rear_delts'], ARRAY['upper_back'], 'cable', 'isolation'),
+  ('Encolhimento com Barra', ARRAY['Barbell Shrug', 'Encolhimento', 'Shrug'], ARRAY['traps'], ARRAY['forearms'], 'barbell', 'isolation'),
+  ('Encolhimento com Halteres', ARRAY['Dumbbell Shrug'], ARRAY['traps'], ARRAY['forearms'], 'dumbbell', 'isolation'),
+  ('Encolhimento no Smith', ARRAY['Smith Machine Shrug'], ARRAY['traps'], '{}', 'smith', 'isolation'),
+  ('Handstand Push-Up', ARRAY['Flexão Parada de Mão', 'HSPU'], ARRAY['front_delts'], ARRAY['triceps', 'side_delts'], 'bodyweight', 'vertical_push'),
+  ('Pike Push-Up', ARRAY['Flexão Pike'], ARRAY['front_delts'], ARRAY['triceps', 'chest'], 'bodyweight', 'vertical_push'),
+  -- Bíceps
+  ('Rosca Direta com Barra', ARRAY['Barbell Curl', 'Rosca Direta', 'Rosca Barra Reta'], ARRAY['biceps'], ARRAY['forearms'], 'barbell', 'isolation'),
+  ('Rosca Direta com Barra W', ARRAY['EZ-Bar Curl', 'Rosca Barra W', 'Rosca W'], ARRAY['biceps'], ARRAY['forearms'], 'ez_bar', 'isolation'),
+  ('Rosca Alternada com Halteres', ARRAY['Alternating Dumbbell Curl', 'Rosca Alternada'], ARRAY['biceps'], ARRAY['forearms'], 'dumbbell', 'isolation'),
+  ('Rosca Simultânea com Halteres', ARRAY['Dumbbell Curl', 'Rosca com Halteres'], ARRAY['biceps'], ARRAY['forearms'], 'dumbbell', 'isolation'),
+  ('Rosca Martelo', ARRAY['Hammer Curl', 'Rosca Martelo com Halteres'], ARRAY['biceps', 'forearms'], '{}', 'dumbbell', 'isolation'),
+  ('Rosca Concentrada', ARRAY['Concentration Curl'], ARRAY['biceps'], '{}', 'dumbbell', 'isolation'),
+  ('Rosca Scott', ARRAY['Preacher Curl', 'Rosca Scott com Barra W'], ARRAY['biceps'], '{}', 'ez_bar', 'isolation'),
+  ('Rosca Scott Máquina', ARRAY['Machine Preacher Curl', 'Rosca Scott Articulada'], ARRAY['biceps'], '{}', 'machine', 'isolation'),
+  ('Rosca Scott com Halter', ARRAY['Dumbbell Preacher Curl'], ARRAY['biceps'], '{}', 'dumbbell', 'isolation'),
+  ('Rosca Inclinada com Halteres', ARRAY['Incline Dumbbell Curl', 'Rosca Inclinada'], ARRAY['biceps'], '{}', 'dumbbell', 'isolation'),
+  ('Rosca na Polia', ARRAY['Cable Curl', 'Rosca Direta na Polia'], ARRAY['biceps'], ARRAY['forearms'], 'cable', 'isolation'),
+  ('Rosca Bayesian', ARRAY['Bayesian Curl', 'Rosca na Polia por Trás'], ARRAY['biceps'], '{}', 'cable', 'isolation'),
+  ('Rosca Spider', ARRAY['Spider Curl'], ARRAY['biceps'], '{}', 'ez_bar', 'isolation'),
+  ('Rosca Inversa', ARRAY['Reverse Curl', 'Rosca Pegada Pronada'], ARRAY['forearms', 'biceps'], '{}', 'barbell', 'isolation'),
+  ('Rosca 21', ARRAY['21s', 'Rosca Vinte e Um'], ARRAY['biceps'], ARRAY['forearms'], 'barbell', 'isolation'),
+  ('Rosca Martelo na Polia', ARRAY['Cable Hammer Curl', 'Rosca Corda'], ARRAY['biceps', 'forearms'], '{}', 'cable', 'isolation'),
+  ('Rosca Zottman', ARRAY['Zottman Curl'], ARRAY['biceps', 'forearms'], '{}', 'dumbbell', 'isolation'),
+  ('Rosca Drag', ARRAY['Drag Curl'], ARRAY['biceps'], '{}', 'barbell', 'isolation'),
+  -- Tríceps
+  ('Tríceps Pulley', ARRAY['Triceps Pushdown', 'Tríceps na Polia', 'Tríceps Barra', 'Pushdown'], ARRAY['triceps'], '{}', 'cable', 'isolation'),
+  ('Tríceps Corda', ARRAY['Rope Pushdown', 'Tríceps Pulley Corda'], ARRAY['triceps'], '{}', 'cable', 'isolation'),
+  ('Tríceps Pulley Inverso', ARRAY['Reverse-Grip Pushdown', 'Tríceps Pegada Supinada'], ARRAY['triceps'], '{}', 'cable', 'isolation'),
+  ('Tríceps Testa', ARRAY['Skull Crusher', 'Lying Triceps Extension', 'Tríceps Testa com Barra W'], ARRAY['triceps'], '{}', 'ez_bar', 'isolation'),
+  ('Tríceps Testa com Halteres', ARRAY['Dumbbell Skull Crusher'], ARRAY['triceps'], '{}', 'dumbbell', 'isolation'),
+  ('Tríceps Francês', ARRAY['Overhead Triceps Extension', 'Tríceps Francês com Halter'], ARRAY['triceps'], '{}', 'dumbbell', 'isolation'),
+  ('Tríceps Francês na Polia', ARRAY['Overhead Cable Triceps Extension', 'Tríceps Overhead Corda'], ARRAY['triceps'], '{}', 'cable', 'isolation'),
+  ('Tríceps Coice', ARRAY['Triceps Kickback', 'Coice', 'Kickback'], ARRAY['triceps'], '{}', 'dumbbell', 'isolation'),
+  ('Tríceps Coice na Polia', ARRAY['Cable Kickback'], ARRAY['triceps'], '{}', 'cable', 'isolation'),
+  ('Tríceps Banco', ARRAY['Bench Dip', 'Mergulho no Banco'], ARRAY['triceps'], ARRAY['chest', 'front_delts'], 'bodyweight', 'vertical_push'),
+  ('Tríceps Máquina', ARRAY['Machine Triceps Extension', 'Tríceps Mergulho Máquina', 'Dip Machine'], ARRAY['triceps'], ARRAY['chest'], 'machine', 'isolation'),
+  ('Tríceps Unilateral na Polia', ARRAY['Single-Arm Pushdown'], ARRAY['triceps'], '{}', 'cable', 'isolation'),
+  ('JM Press', ARRAY['Supino JM'], ARRAY['triceps'], ARRAY['chest'], 'barbell', 'horizontal_push'),
+  ('Tate Press', ARRAY['Tate Press com Halteres'], ARRAY['triceps'], '{}', 'dumbbell', 'isolation'),
+  -- Antebraço
+  ('Rosca de Punho', ARRAY['Wrist Curl', 'Flexão de Punho'], ARRAY['forearms'], '{}', 'barbell', 'isolation'),
+  ('Rosca de Punho Inversa', ARRAY['Reverse Wrist Curl', 'Extensão de Punho'], ARRAY['forearms'], '{}', 'barbell', 'isolation'),
+  ('Farmer''s Walk', ARRAY['Caminhada do Fazendeiro', 'Farmer Carry', 'Farmers Walk'], ARRAY['forearms', 'traps'], ARRAY['abs', 'glutes'], 'dumbbell', 'carry'),
+  ('Suitcase Carry', ARRAY['Carregamento Unilateral', 'Caminhada com Mala'], ARRAY['obliques', 'forearms'], ARRAY['traps'], 'dumbbell', 'carry'),
+  ('Dead Hang', ARRAY['Suspensão na Barra', 'Hang'], ARRAY['forearms'], ARRAY['lats'], 'bodyweight', 'isolation'),
+  -- Pernas - quadríceps
+  ('Agachamento Livre', ARRAY['Squat', 'Back Squat', 'Agachamento', 'Agachamento com Barra', 'Barbell Squat'], ARRAY['quads', 'glutes'], ARRAY['adductors', 'hamstrings', 'lower_back'], 'barbell', 'squat'),
+  ('Agachamento Frontal', ARRAY['Front Squat', 'Agachamento Front'], ARRAY['quads'], ARRAY['glutes', 'abs', 'upper_back'], 'barbell', 'squat'),
+  ('Agachamento no Smith', ARRAY['Smith Machine Squat'], ARRAY['quads', 'glutes'], ARRAY['adductors'], 'smith', 'squat'),
+  ('Agachamento Hack', ARRAY['Hack Squat', 'Hack Machine', 'Hack'], ARRAY['quads'], ARRAY['glutes', 'adductors'], 'machine', 'squat'),
+  ('Agachamento Hack com Barra', ARRAY['Barbell Hack Squat'], ARRAY['quads'], ARRAY['glutes', 'hamstrings'], 'barbell', 'squat'),
+  ('Agachamento Goblet', ARRAY['Goblet Squat'], ARRAY['quads', 'glutes'], ARRAY['abs', 'adductors'], 'dumbbell', 'squat'),
+  ('Agachamento Sumô', ARRAY['Sumo Squat', 'Agachamento Sumô com Halter'], ARRAY['adductors', 'glutes'], ARRAY['quads'], 'dumbbell', 'squat'),
+  ('Agachamento Búlgaro', ARRAY['Bulgarian Split Squat', 'Búlgaro', 'Agachamento Búlgaro com Halteres'], ARRAY['quads', 'glutes'], ARRAY['adductors', 'hamstrings'], 'dumbbell', 'lunge'),
+  ('Agachamento Box', ARRAY['Box Squat'], ARRAY['quads', 'glutes'], ARRAY['hamstrings', 'lower_back'], 'barbell', 'squat'),
+  ('Agachamento Pausado', ARRAY['Pause Squat'], ARRAY['quads', 'glutes'], ARRAY['adductors', 'lower_back'], 'barbell', 'squat'),
+  ('Agachamento Overhead', ARRAY['Overhead Squat'], ARRAY['quads', 'glutes'], ARRAY['front_delts', 'abs', 'upper_back'], 'barbell', 'squat'),
+  ('Agachamento Zercher', ARRAY['Zercher Squat'], ARRAY['quads', 'glutes'], ARRAY['abs', 'upper_back', 'biceps'], 'barbell', 'squat'),
+  ('Agachamento Safety Bar', ARRAY['Safety Bar Squat', 'SSB Squat'], ARRAY['quads', 'glutes'], ARRAY['upper_back', 'lower_back'], 'barbell', 'squat'),
+  ('Agachamento Pendular', ARRAY['Pendulum Squat'], ARRAY['quads'], ARRAY['glutes'], 'machine', 'squat'),
+  ('Agachamento com Peso Corporal', ARRAY['Bodyweight Squat', 'Air Squat', 'Agachamento Livre sem Peso'], ARRAY['quads', 'glutes'], '{}', 'bodyweight', 'squat'),
+  ('Agachamento Pistol', ARRAY['Pistol Squat', 'Agachamento Unilateral'], ARRAY['quads', 'glutes'], ARRAY['abs'], 'bodyweight', 'squat'),
+  ('Agachamento Sissy', ARRAY['Sissy Squat'], ARRAY['quads'], '{}', 'bodyweight', 'isolation'),
+  ('Belt Squat', ARRAY['Agachamento com Cinto'], ARRAY['quads', 'glutes'], ARRAY['adductors'], 'machine', 'squat'),
+  ('Leg Press 45°', ARRAY['Leg Press', 'Leg Press 45', 'Leg 45'], ARRAY['quads', 'glutes'], ARRAY['adductors', 'hamstrings'], 'machine', 'squat'),
+  ('Leg Press Horizontal', ARRAY['Horizontal Leg Press', 'Seated Leg Press'], ARRAY['quads', 'glutes'], ARRAY['hamstrings'], 'machine', 'squat'),
+  ('Leg Press Unilateral', ARRAY['Single-Leg Press'], ARRAY['quads', 'glutes'], ARRAY['hamstrings'], 'machine', 'squat'),
+  ('Cadeira Extensora', ARRAY['Leg Extension', 'Extensora', 'Extensão de Pernas'], ARRAY['quads'], '{}', 'machine', 'isolation'),
+  ('Cadeira Extensora Unilateral', ARRAY['Single-Leg Extension'], ARRAY['quads'], '{}', 'machine', 'isolation'),
+  ('Avanço', ARRAY['Lunge', 'Afundo', 'Passada', 'Walking Lunge'], ARRAY['quads', 'glutes'], ARRAY['hamstrings', 'adductors'], 'dumbbell', 'lunge'),
+  ('Avanço com Barra', ARRAY['Barbell Lunge'], ARRAY['quads', 'glutes'], ARRAY['hamstrings', 'adductors'], 'barbell', 'lunge'),
+  ('Avanço Reverso', ARRAY['Reverse Lunge', 'Afundo Reverso'], ARRAY['glutes', 'quads'], ARRAY['hamstrings'], 'dumbbell', 'lunge'),
+  ('Afundo no Smith', ARRAY['Smith Machine Split Squat', 'Smith Lunge'], ARRAY['quads', 'glutes'], ARRAY['hamstrings'], 'smith', 'lunge'),
+  ('Passada Lateral', ARRAY['Lateral Lunge', 'Side Lunge'], ARRAY['adductors', 'glutes'], ARRAY['quads'], 'dumbbell', 'lunge'),
+  ('Subida no Banco', ARRAY['Step-Up', 'Step Up', 'Subida no Caixote'], ARRAY['quads', 'glutes'], ARRAY['hamstrings'], 'dumbbell', 'lunge'),
+  ('Agachamento Split', ARRAY['Split Squat', 'Afundo Estático'], ARRAY['quads', 'glutes'], ARRAY['hamstrings'], 'dumbbell', 'lunge'),
+  ('Wall Sit', ARRAY['Agachamento Isométrico na Parede', 'Cadeirinha'], ARRAY['quads'], ARRAY['glutes'], 'bodyweight', 'squat'),
+  -- Pernas - posterior
+  ('Levantamento Terra Romeno', ARRAY['Romanian Deadlift', 'RDL', 'Terra Romeno', 'Stiff Romeno'], ARRAY['hamstrings', 'glutes'], ARRAY['lower_back', 'forearms'], 'barbell', 'hinge'),
+  ('Levantamento Terra Romeno com Halteres', ARRAY['Dumbbell Romanian Deadlift', 'Dumbbell RDL'], ARRAY['hamstrings', 'glutes'], ARRAY['lower_back'], 'dumbbell', 'hinge'),
+  ('Stiff', ARRAY['Stiff-Legged Deadlift', 'Stiff com Barra'], ARRAY['hamstrings'], ARRAY['glutes', 'lower_back'], 'barbell', 'hinge'),
+  ('Stiff com Halteres', ARRAY['Dumbbell Stiff-Legged Deadlift'], ARRAY['hamstrings'], ARRAY['glutes', 'lower_back'], 'dumbbell', 'hinge'),
+  ('Terra Romeno Unilateral', ARRAY['Single-Leg Romanian Deadlift', 'Single-Leg RDL', 'Stiff Unilateral'], ARRAY['hamstrings', 'glutes'], ARRAY['lower_back', 'abs'], 'dumbbell', 'hinge'),
+  ('Mesa Flexora', ARRAY['Lying Leg Curl', 'Flexora Deitada', 'Leg Curl'], ARRAY['hamstrings'], ARRAY['calves'], 'machine', 'isolation'),
+  ('Cadeira Flexora', ARRAY['Seated Leg Curl', 'Flexora Sentada'], ARRAY['hamstrings'], '{}', 'machine', 'isolation'),
+  ('Flexora em Pé', ARRAY['Standing Leg Curl', 'Flexora Unilateral'], ARRAY['hamstrings'], '{}', 'machine', 'isolation'),
+  ('Nordic Curl', ARRAY['Flexão Nórdica', 'Nordic Hamstring Curl'], ARRAY['hamstrings'], '{}', 'bodyweight', 'isolation'),
+  ('Glute Ham Raise', ARRAY['GHR'], ARRAY['hamstrings'], ARRAY['glutes', 'calves'], 'machine', 'hinge'),
+  ('Flexora com Bola', ARRAY['Stability Ball Leg Curl', 'Swiss Ball Hamstring Curl'], ARRAY['hamstrings'], ARRAY['glutes'], 'other', 'isolation'),
+  ('Kettlebell Swing', ARRAY['Swing', 'Swing com Kettlebell'], ARRAY['glutes', 'hamstrings'], ARRAY['lower_back', 'abs', 'front_delts'], 'kettlebell', 'hinge'),
+  ('Pull Through', ARRAY['Cable Pull-Through'], ARRAY['glutes'], ARRAY['hamstrings'], 'cable', 'hinge'),
+  -- Glúteos
+  ('Elevação Pélvica', ARRAY['Hip Thrust', 'Barbell Hip Thrust', 'Hip Thrust com Barra'], ARRAY['glutes'], ARRAY['hamstrings', 'quads'], 'barbell', 'hinge'),
+  ('Elevação Pélvica Máquina', ARRAY['Machine Hip Thrust', 'Hip Thrust Máquina'], ARRAY['glutes'], ARRAY['hamstrings'], 'machine', 'hinge'),
+  ('Ponte de Glúteo', ARRAY['Glute Bridge', 'Ponte'], ARRAY['glutes'], ARRAY['hamstrings'], 'bodyweight', 'hinge'),
+  ('Ponte de Glúteo Unilateral', ARRAY['Single-Leg Glute Bridge'], ARRAY['glutes'], ARRAY['hamstrings'], 'bodyweight', 'hinge'),
+  ('Glúteo na Polia', ARRAY['Cable Glute Kickback', 'Coice na Polia', 'Glute Kickback'], ARRAY['glutes'], ARRAY['hamstrings'], 'cable', 'isolation'),
+  ('Glúteo Máquina', ARRAY['Glute Kickback Machine', 'Glúteo Quatro Apoios Máquina'], ARRAY['glutes'], ARRAY['hamstrings'], 'machine', 'isolation'),
+  ('Glúteo Quatro Apoios', ARRAY['Donkey Kick', 'Coice de Glúteo'], ARRAY['glutes'], ARRAY['hamstrings'], 'bodyweight', 'isolation'),
+  ('Cadeira Abdutora', ARRAY['Hip Abduction Machine', 'Abdutora', 'Abdução de Quadril'], ARRAY['abductors', 'glutes'], '{}', 'machine', 'isolation'),
+  ('Abdução na Polia', ARRAY['Cable Hip Abduction'], ARRAY['abductors', 'glutes'], '{}', 'cable', 'isolation'),
+  ('Abdução com Elástico', ARRAY['Banded Abduction', 'Clamshell', 'Ostra'], ARRAY['abductors', 'glutes'], '{}', 'band', 'isolation'),
+  ('Cadeira Adutora', ARRAY['Hip Adduction Machine', 'Adutora', 'Adução de Quadril'], ARRAY['adductors'], '{}', 'machine', 'isolation'),
+  ('Adução na Polia', ARRAY['Cable Hip Adduction'], ARRAY['adductors'], '{}', 'cable', 'isolation'),
+  ('Copenhagen Plank', ARRAY['Prancha Copenhagen'], ARRAY['adductors'], ARRAY['obliques'], 'bodyweight', 'core'),
+  ('Frog Pump', ARRAY['Frog Pumps'], ARRAY['glutes'], '{}', 'bodyweight', 'isolation'),
+  -- Panturrilha
+  ('Panturrilha em Pé', ARRAY['Standing Calf Raise', 'Gêmeos em Pé', 'Panturrilha em Pé Máquina'], ARRAY['calves'], '{}', 'machine', 'isolation'),
+  ('Panturrilha Sentado', ARRAY['Seated Calf Raise', 'Gêmeos Sentado', 'Sóleo'], ARRAY['calves'], '{}', 'machine', 'isolation'),
+  ('Panturrilha no Leg Press', ARRAY['Leg Press Calf Raise', 'Calf Press'], ARRAY['calves'], '{}', 'machine', 'isolation'),
+  ('Panturrilha no Smith', ARRAY['Smith Machine Calf Raise'], ARRAY['calves'], '{}', 'smith', 'isolation'),
+  ('Panturrilha Unilateral com Halter', ARRAY['Single-Leg Calf Raise', 'Panturrilha Unilateral'], ARRAY['calves'], '{}', 'dumbbell', 'isolation'),
+  ('Panturrilha Burrinho', ARRAY['Donkey Calf Raise'], ARRAY['calves'], '{}', 'machine', 'isolation'),
+  ('Elevação de Tibial', ARRAY['Tibialis Raise', 'Tibial Anterior'], ARRAY['calves'], '{}', 'bodyweight', 'isolation'),
+  -- Core
+  ('Prancha', ARRAY['Plank', 'Prancha Frontal', 'Prancha Isométrica'], ARRAY['abs'], ARRAY['obliques', 'lower_back'], 'bodyweight', 'core'),
+  ('Prancha Lateral', ARRAY['Side Plank'], ARRAY['obliques'], ARRAY['abs', 'abductors'], 'bodyweight', 'core'),
+  ('Abdominal Supra', ARRAY['Crunch', 'Abdominal', 'Abdominal Crunch'], ARRAY['abs'], '{}', 'bodyweight', 'core'),
+  ('Abdominal Infra', ARRAY['Reverse Crunch', 'Abdominal Reverso'], ARRAY['abs'], '{}', 'bodyweight', 'core'),
+  ('Abdominal na Polia', ARRAY['Cable Crunch', 'Abdominal Ajoelhado na Polia'], ARRAY['abs'], ARRAY['obliques'], 'cable', 'core'),
+  ('Abdominal Máquina', ARRAY['Machine Crunch'], ARRAY['abs'], '{}', 'machine', 'core'),
+  ('Abdominal Bicicleta', ARRAY['Bicycle Crunch'], ARRAY['abs', 'obliques'], '{}', 'bodyweight', 'core'),
+  ('Abdominal Oblíquo', ARRAY['Oblique Crunch', 'Abdominal Lateral'], ARRAY['obliques'], ARRAY['abs'], 'bodyweight', 'core'),
+  ('Abdominal Remador', ARRAY['Sit-Up', 'Sit Up'], ARRAY['abs'], '{}', 'bodyweight', 'core'),
+  ('Abdominal Declinado', ARRAY['Decline Sit-Up', 'Decline Crunch'], ARRAY['abs'], '{}', 'bodyweight', 'core'),
+  ('Elevação de Pernas na Barra', ARRAY['Hanging Leg Raise', 'Elevação de Pernas Suspenso'], ARRAY['abs'], ARRAY['obliques', 'forearms'], 'bodyweight', 'core'),
+  ('Elevação de Joelhos na Barra', ARRAY['Hanging Knee Raise'], ARRAY['abs'], '{}', 'bodyweight', 'core'),
+  ('Elevação de Pernas Deitado', ARRAY['Lying Leg Raise', 'Elevação de Pernas'], ARRAY['abs'], '{}', 'bodyweight', 'core'),
+  ('Elevação de Pernas na Paralela', ARRAY['Captain''s Chair Leg Raise', 'Knee Raise na Paralela'], ARRAY['abs'], '{}', 'bodyweight', 'core'),
+  ('Roda Abdominal', ARRAY['Ab Wheel Rollout', 'Ab Wheel', 'Rollout'], ARRAY['abs'], ARRAY['lats', 'lower_back'], 'other', 'core'),
+  ('Dead Bug', ARRAY['Inseto Morto'], ARRAY['abs'], ARRAY['obliques'], 'bodyweight', 'core'),
+  ('Hollow Hold', ARRAY['Hollow Body Hold', 'Canoa'], ARRAY['abs'], '{}', 'bodyweight', 'core'),
+  ('Bird Dog', ARRAY['Perdigueiro'], ARRAY['lower_back', 'abs'], ARRAY['glutes'], 'bodyweight', 'core'),
+  ('Russian Twist', ARRAY['Rotação Russa', 'Giro Russo'], ARRAY['obliques'], ARRAY['abs'], 'bodyweight', 'core'),
+  ('Pallof Press', ARRAY['Anti-Rotação na Polia'], ARRAY['obliques', 'abs'], '{}', 'cable', 'core'),
+  ('Woodchopper', ARRAY['Lenhador na Polia', 'Cable Woodchop'], ARRAY['obliques'], ARRAY['abs', 'front_delts'], 'cable', 'core'),
+  ('Abdominal Canivete', ARRAY['V-Up', 'V Up', 'Canivete'], ARRAY['abs'], '{}', 'bodyweight', 'core'),
+  ('Mountain Climber', ARRAY['Escalador', 'Alpinista'], ARRAY['abs'], ARRAY['quads', 'front_delts'], 'bodyweight', 'core'),
+  ('Toes to Bar', ARRAY['T2B', 'Pés na Barra'], ARRAY['abs'], ARRAY['lats', 'forearms'], 'bodyweight', 'core'),
+  ('L-Sit', ARRAY['L Sit'], ARRAY['abs'], ARRAY['triceps', 'quads'], 'bodyweight', 'core'),
+  ('Flexão Lateral com Halter', ARRAY['Dumbbell Side Bend', 'Side Bend'], ARRAY['obliques'], '{}', 'dumbbell', 'core'),
+  ('Landmine Rotation', ARRAY['Rotação Landmine', 'Landmine Twist'], ARRAY['obliques'], ARRAY['abs', 'front_delts'], 'barbell', 'core'),
+  -- Levantamento olímpico / funcional
+  ('Arremesso', ARRAY['Clean and Jerk', 'Clean & Jerk'], ARRAY['quads', 'glutes', 'front_delts'], ARRAY['hamstrings', 'traps', 'triceps', 'upper_back'], 'barbell', 'squat'),
+  ('Arranco', ARRAY['Snatch'], ARRAY['quads', 'glutes', 'traps'], ARRAY['hamstrings', 'front_delts', 'upper_back'], 'barbell', 'squat'),
+  ('Power Clean', ARRAY['Clean', 'Levantamento Power Clean'], ARRAY['glutes', 'hamstrings', 'traps'], ARRAY['quads', 'upper_back', 'forearms'], 'barbell', 'hinge'),
+  ('Hang Clean', ARRAY['Hang Power Clean'], ARRAY['glutes', 'hamstrings', 'traps'], ARRAY['quads', 'upper_back'], 'barbell', 'hinge'),
+  ('Power Snatch', ARRAY['Arranco de Potência'], ARRAY['glutes', 'hamstrings', 'traps'], ARRAY['quads', 'front_delts'], 'barbell', 'hinge'),
+  ('Thruster', ARRAY['Thrusters'], ARRAY['quads', 'front_delts'], ARRAY['glutes', 'triceps'], 'barbell', 'squat'),
+  ('Thruster com Halteres', ARRAY['Dumbbell Thruster'], ARRAY['quads', 'front_delts'], ARRAY['glutes', 'triceps'], 'dumbbell', 'squat'),
+  ('Wall Ball', ARRAY['Arremesso na Parede', 'Wall Balls'], ARRAY['quads', 'front_delts'], ARRAY['glutes'], 'other', 'squat'),
+  ('Burpee', ARRAY['Burpees'], ARRAY['quads', 'chest'], ARRAY['abs', 'front_delts', 'triceps'], 'bodyweight', 'squat'),
+  ('Box Jump', ARRAY['Salto na Caixa', 'Salto no Caixote'], ARRAY['quads', 'glutes'], ARRAY['calves', 'hamstrings'], 'bodyweight', 'squat'),
+  ('Salto Vertical', ARRAY['Jump Squat', 'Agachamento com Salto', 'Squat Jump'], ARRAY['quads', 'glutes'], ARRAY['calves'], 'bodyweight', 'squat'),
+  ('Turkish Get-Up', ARRAY['Levantamento Turco'], ARRAY['front_delts', 'abs'], ARRAY['glutes', 'obliques'], 'kettlebell', 'core'),
+  ('Kettlebell Snatch', ARRAY['Arranco com Kettlebell'], ARRAY['glutes', 'hamstrings', 'front_delts'], ARRAY['traps', 'abs'], 'kettlebell', 'hinge'),
+  ('Kettlebell Clean', ARRAY['Clean com Kettlebell'], ARRAY['glutes', 'hamstrings'], ARRAY['forearms', 'front_delts'], 'kettlebell', 'hinge'),
+  ('Sled Push', ARRAY['Empurrar Trenó', 'Prowler Push'], ARRAY['quads', 'glutes'], ARRAY['calves', 'chest'], 'other', 'carry'),
+  ('Sled Pull', ARRAY['Puxar Trenó'], ARRAY['hamstrings', 'glutes'], ARRAY['upper_back', 'forearms'], 'other', 'carry'),
+  ('Battle Rope', ARRAY['Corda Naval', 'Battle Ropes'], ARRAY['front_delts', 'abs'], ARRAY['forearms', 'side_delts'], 'other', 'core'),
+  ('Muscle-Up', ARRAY['Muscle Up'], ARRAY['lats', 'triceps'], ARRAY['chest', 'biceps', 'abs'], 'bodyweight', 'vertical_pull'),
+  ('Corda', ARRAY['Rope Climb', 'Subida na Corda'], ARRAY['lats', 'biceps'], ARRAY['forearms', 'abs'], 'other', 'vertical_pull'),
+  -- Cardio
+  ('Corrida na Esteira', ARRAY['Treadmill Run', 'Esteira', 'Corrida'], ARRAY['quads', 'calves'], ARRAY['hamstrings', 'glutes'], 'machine', 'cardio'),
+  ('Corrida ao Ar Livre', ARRAY['Running', 'Outdoor Run', 'Corrida de Rua'], ARRAY['quads', 'calves'], ARRAY['hamstrings', 'glutes'], 'bodyweight', 'cardio'),
+  ('Caminhada', ARRAY['Walking', 'Walk', 'Caminhada na Esteira'], ARRAY['calves', 'quads'], ARRAY['glutes'], 'bodyweight', 'cardio'),
+  ('Caminhada Inclinada', ARRAY['Incline Walk', 'Esteira Inclinada'], ARRAY['glutes', 'calves'], ARRAY['hamstrings', 'quads'], 'machine', 'cardio'),
+  ('Bicicleta Ergométrica', ARRAY['Stationary Bike', 'Bike', 'Bicicleta', 'Spinning'], ARRAY['quads'], ARRAY['hamstrings', 'calves', 'glutes'], 'machine', 'cardio'),
+  ('Ciclismo', ARRAY['Cycling', 'Pedal', 'Bike Outdoor'], ARRAY['quads'], ARRAY['hamstrings', 'calves', 'glutes'], 'other', 'cardio'),
+  ('Remo Ergômetro', ARRAY['Rowing Machine', 'Remo', 'Rower', 'Ergômetro'], ARRAY['upper_back', 'quads'], ARRAY['lats', 'hamstrings', 'biceps', 'abs'], 'machine', 'cardio'),
+  ('Elíptico', ARRAY['Elliptical', 'Transport', 'Elíptica'], ARRAY['quads', 'glutes'], ARRAY['hamstrings', 'calves'], 'machine', 'cardio'),
+  ('Escada', ARRAY['Stair Climber', 'Stairmaster', 'Simulador de Escada'], ARRAY['glutes', 'quads'], ARRAY['calves', 'hamstrings'], 'machine', 'cardio'),
+  ('Pular Corda', ARRAY['Jump Rope', 'Corda de Pular'], ARRAY['calves'], ARRAY['quads', 'forearms'], 'other', 'cardio'),
+  ('Assault Bike', ARRAY['Air Bike', 'Bike de Ar'], ARRAY['quads'], ARRAY['front_delts', 'upper_back', 'hamstrings'], 'machine', 'cardio'),
+  ('Natação', ARRAY['Swimming', 'Nado'], ARRAY['lats', 'front_delts'], ARRAY['triceps', 'abs', 'quads'], 'bodyweight', 'cardio'),
+  ('SkiErg', ARRAY['Ski Erg', 'Ergômetro de Esqui'], ARRAY['lats', 'triceps'], ARRAY['abs', 'upper_back'], 'machine', 'cardio')
+ON CONFLICT (name) DO NOTHING;
+
+-- Link legacy rows whose free-text name already matches a catalog name or alias
+UPDATE public.exercises e
+SET exercise_catalog_id = c.id
+FROM public.exercise_catalog c
+WHERE e.exercise_catalog_id IS NULL
+  AND (
+    public.normalize_exercise_name(e.name) = public.normalize_exercise_name(c.name)
+    OR public.normalize_exercise_name(e.name) IN (
+      SELECT public.normalize_exercise_name(alias) FROM unnest(c.aliases) AS alias
+    )
+  );
+
+-- Free-text names of the caller's exercises that are not linked to the catalog yet
+CREATE OR REPLACE FUNCTION public.unmapped_exercise_names()
+RETURNS TABLE (name TEXT, occurrences BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT MIN(e.name), COUNT(*)
+  FROM public.exercises e
+  JOIN public.workouts w ON w.id = e.workout_id
+  WHERE w.user_id = auth.uid()
+    AND e.exercise_catalog_id IS NULL
+  GROUP BY public.normalize_exercise_name(e.name)
+  ORDER BY COUNT(*) DESC, MIN(e.name);
+$$;
+
+-- Point every exercise logged under p_name at a catalog entry and adopt its
+-- canonical name. Returns the number of rows updated.
+CREATE OR REPLACE FUNCTION public.map_exercise_name(p_name TEXT, p_catalog_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_catalog_name TEXT;
+  v_updated INTEGER;
+BEGIN
+  SELECT name INTO v_catalog_name FROM public.exercise_catalog WHERE id = p_catalog_id;
+
+  IF v_catalog_name IS NULL THEN
+    RAISE EXCEPTION 'Catalog entry % not found', p_catalog_id;
+  END IF;
+
+  UPDATE public.exercises e
+  SET exercise_catalog_id = p_catalog_id,
+      name = v_catalog_name
+  FROM public.workouts w
+  WHERE w.id = e.workout_id
+    AND w.user_id = auth.uid()
+    AND public.normalize_exercise_name(e.name) = public.normalize_exercise_name(p_name);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+-- save_workout now persists the catalog link
+CREATE OR REPLACE FUNCTION public.save_workout(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+  v_exercises JSONB := COALESCE(payload->'exercises', '[]'::JSONB);
+  v_exercise JSONB;
+  v_exercise_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Workout name is required';
+  END IF;
+
+  INSERT INTO public.workouts (id, user_id, name, notes)
+  VALUES (v_workout_id, auth.uid(), payload->>'name', payload->>'notes')
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes
+    WHERE workouts.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', v_workout_id;
+  END IF;
+
+  -- Exercises dropped from the payload are removed (their sets cascade)
+  DELETE FROM public.exercises
+  WHERE workout_id = v_workout_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID
+      FROM jsonb_array_elements(v_exercises) AS e
+      WHERE NULLIF(e->>'id', '') IS NOT NULL
+    );
+
+  FOR v_exercise IN SELECT * FROM jsonb_array_elements(v_exercises) LOOP
+    v_exercise_id := COALESCE(NULLIF(v_exercise->>'id', '')::UUID, gen_random_uuid());
+
+    INSERT INTO public.exercises (id, workout_id, exercise_catalog_id, name, notes, sets)
+    VALUES (
+      v_exercise_id,
+      v_workout_id,
+      NULLIF(v_exercise->>'exercise_catalog_id', '')::UUID,
+      v_exercise->>'name',
+      v_exercise->>'notes',
+      jsonb_array_length(COALESCE(v_exercise->'sets', '[]'::JSONB))
+    )
+    ON CONFLICT (id) DO UPDATE
+      SET exercise_catalog_id = EXCLUDED.exercise_catalog_id,
+          name = EXCLUDED.name,
+          notes = EXCLUDED.notes,
+          sets = EXCLUDED.sets
+      WHERE exercises.workout_id = v_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Exercise % belongs to another workout', v_exercise_id;
+    END IF;
+
+    DELETE FROM public.exercise_sets WHERE exercise_id = v_exercise_id;
+
+    INSERT INTO public.exercise_sets (exercise_id, set_number, reps, weight, completed, set_type)
+    SELECT
+      v_exercise_id,
+      s.ordinality,
+      COALESCE((s.value->>'reps')::INTEGER, 0),
+      COALESCE((s.value->>'weight')::DECIMAL, 0),
+      COALESCE((s.value->>'completed')::BOOLEAN, true),
+      COALESCE(s.value->>'set_type', 'normal')
+    FROM jsonb_array_elements(COALESCE(v_exercise->'sets', '[]'::JSONB)) WITH ORDINALITY AS s(value, ordinality);
+  END LOOP;
+
+  RETURN v_workout_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.unmapped_exercise_names() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.map_exercise_name(TEXT, UUID) TO authenticated;
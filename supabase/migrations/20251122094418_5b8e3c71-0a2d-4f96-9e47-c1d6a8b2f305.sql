@@ -0,0 +1,250 @@
+-- Create personal_records table
+CREATE TABLE IF NOT EXISTS public.personal_records (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  workout_id UUID NOT NULL REFERENCES public.workouts(id) ON DELETE CASCADE,
+  exercise_id UUID NOT NULL REFERENCES public.exercises(id) ON DELETE CASCADE,
+  exercise_name TEXT NOT NULL,
+  record_type TEXT NOT NULL
+    CHECK (record_type IN ('weight', 'reps', 'e1rm', 'volume')),
+  value DECIMAL(10, 2) NOT NULL,
+  weight DECIMAL(10, 2),
+  reps INTEGER,
+  previous_value DECIMAL(10, 2),
+  achieved_on DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS personal_records_user_achieved_idx
+  ON public.personal_records (user_id, achieved_on DESC);
+
+CREATE INDEX IF NOT EXISTS personal_records_workout_id_idx
+  ON public.personal_records (workout_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.personal_records ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for personal_records
+CREATE POLICY "Users can view their own records"
+  ON public.personal_records FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own records"
+  ON public.personal_records FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own records"
+  ON public.personal_records FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Recomputes the records set by one workout against every workout logged
+-- before it. Only completed working sets count, and an exercise's first
+-- session is its baseline rather than a record. Records of later workouts
+-- are not revisited when an older workout is edited.
+CREATE OR REPLACE FUNCTION public.refresh_personal_records(p_workout_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout public.workouts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', p_workout_id;
+  END IF;
+
+  DELETE FROM public.personal_records WHERE workout_id = p_workout_id;
+
+  INSERT INTO public.personal_records
+    (user_id, workout_id, exercise_id, exercise_name, record_type, value, weight, reps, previous_value, achieved_on)
+  WITH logged AS (
+    SELECT
+      w.id AS workout_id,
+      e.id AS exercise_id,
+      e.name AS exercise_name,
+      public.normalize_exercise_name(e.name) AS exercise_key,
+      COALESCE(s.weight, 0) AS weight,
+      s.reps,
+      CASE
+        WHEN s.reps = 1 THEN COALESCE(s.weight, 0)
+        ELSE COALESCE(s.weight, 0) * (1 + s.reps / 30.0)
+      END AS e1rm,
+      w.id = p_workout_id AS is_current
+    FROM public.workouts w
+    JOIN public.exercises e ON e.workout_id = w.id
+    JOIN public.exercise_sets s ON s.exercise_id = e.id
+    WHERE w.user_id = auth.uid()
+      AND s.completed
+      AND s.set_type <> 'warmup'
+      AND s.reps > 0
+      AND (
+        w.id = p_workout_id
+        OR (w.date, COALESCE(w.created_at, '-infinity'))
+          < (v_workout.date, COALESCE(v_workout.created_at, 'infinity'))
+      )
+  ),
+  current_sets AS (
+    SELECT * FROM logged WHERE is_current
+  ),
+  prior_sets AS (
+    SELECT * FROM logged
+    WHERE NOT is_current
+      AND exercise_key IN (SELECT exercise_key FROM current_sets)
+  ),
+  prior_best AS (
+    SELECT exercise_key, MAX(weight) AS weight, MAX(e1rm) AS e1rm
+    FROM prior_sets
+    GROUP BY exercise_key
+  ),
+  prior_volume AS (
+    SELECT exercise_key, MAX(volume) AS volume
+    FROM (
+      SELECT exercise_key, SUM(weight * reps) AS volume
+      FROM prior_sets
+      GROUP BY exercise_key, workout_id
+    ) sessions
+    GROUP BY exercise_key
+  ),
+  weight_records AS (
+    SELECT DISTINCT ON (c.exercise_key) c.*, p.weight AS previous_value
+    FROM current_sets c
+    JOIN prior_best p USING (exercise_key)
+    WHERE c.weight > p.weight
+    ORDER BY c.exercise_key, c.weight DESC, c.reps DESC
+  ),
+  -- More reps than ever managed at this weight or heavier
+  reps_records AS (
+    SELECT DISTINCT ON (c.exercise_key) c.*, r.reps AS previous_value
+    FROM current_sets c
+    CROSS JOIN LATERAL (
+      SELECT MAX(p.reps) AS reps
+      FROM prior_sets p
+      WHERE p.exercise_key = c.exercise_key AND p.weight >= c.weight
+    ) r
+    WHERE c.reps > r.reps
+    ORDER BY c.exercise_key, c.weight DESC, c.reps DESC
+  ),
+  e1rm_records AS (
+    SELECT DISTINCT ON (c.exercise_key) c.*, p.e1rm AS previous_value
+    FROM current_sets c
+    JOIN prior_best p USING (exercise_key)
+    WHERE c.e1rm > p.e1rm
+    ORDER BY c.exercise_key, c.e1rm DESC
+  ),
+  volume_records AS (
+    SELECT v.*, p.volume AS previous_value
+    FROM (
+      SELECT
+        exercise_key,
+        (ARRAY_AGG(exercise_id ORDER BY exercise_id))[1] AS exercise_id,
+        (ARRAY_AGG(exercise_name ORDER BY exercise_id))[1] AS exercise_name,
+        SUM(weight * reps) AS volume
+      FROM current_sets
+      GROUP BY exercise_key
+    ) v
+    JOIN prior_volume p USING (exercise_key)
+    WHERE v.volume > p.volume
+  )
+  SELECT auth.uid(), p_workout_id, exercise_id, exercise_name, 'weight', weight, weight, reps, previous_value, v_workout.date
+  FROM weight_records
+  UNION ALL
+  SELECT auth.uid(), p_workout_id, exercise_id, exercise_name, 'reps', reps, weight, reps, previous_value, v_workout.date
+  FROM reps_records
+  UNION ALL
+  SELECT auth.uid(), p_workout_id, exercise_id, exercise_name, 'e1rm', ROUND(e1rm, 1), weight, reps, ROUND(previous_value, 1), v_workout.date
+  FROM e1rm_records
+  UNION ALL
+  SELECT auth.uid(), p_workout_id, exercise_id, exercise_name, 'volume', volume, NULL, NULL, previous_value, v_workout.date
+  FROM volume_records;
+END;
+$$;
+
+-- save_workout now refreshes the workout's personal records in the same transaction
+CREATE OR REPLACE FUNCTION public.save_workout(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+  v_exercises JSONB := COALESCE(payload->'exercises', '[]'::JSONB);
+  v_exercise JSONB;
+  v_exercise_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Workout name is required';
+  END IF;
+
+  INSERT INTO public.workouts (id, user_id, name, notes)
+  VALUES (v_workout_id, auth.uid(), payload->>'name', payload->>'notes')
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes
+    WHERE workouts.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', v_workout_id;
+  END IF;
+
+  -- Exercises dropped from the payload are removed (their sets cascade)
+  DELETE FROM public.exercises
+  WHERE workout_id = v_workout_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID
+      FROM jsonb_array_elements(v_exercises) AS e
+      WHERE NULLIF(e->>'id', '') IS NOT NULL
+    );
+
+  FOR v_exercise IN SELECT * FROM jsonb_array_elements(v_exercises) LOOP
+    v_exercise_id := COALESCE(NULLIF(v_exercise->>'id', '')::UUID, gen_random_uuid());
+
+    INSERT INTO public.exercises (id, workout_id, exercise_catalog_id, name, notes, sets)
+    VALUES (
+      v_exercise_id,
+      v_workout_id,
+      NULLIF(v_exercise->>'exercise_catalog_id', '')::UUID,
+      v_exercise->>'name',
+      v_exercise->>'notes',
+      jsonb_array_length(COALESCE(v_exercise->'sets', '[]'::JSONB))
+    )
+    ON CONFLICT (id) DO UPDATE
+      SET exercise_catalog_id = EXCLUDED.exercise_catalog_id,
+          name = EXCLUDED.name,
+          notes = EXCLUDED.notes,
+          sets = EXCLUDED.sets
+      WHERE exercises.workout_id = v_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Exercise % belongs to another workout', v_exercise_id;
+    END IF;
+
+    DELETE FROM public.exercise_sets WHERE exercise_id = v_exercise_id;
+
+    INSERT INTO public.exercise_sets (exercise_id, set_number, reps, weight, completed, set_type)
+    SELECT
+      v_exercise_id,
+      s.ordinality,
+      COALESCE((s.value->>'reps')::INTEGER, 0),
+      COALESCE((s.value->>'weight')::DECIMAL, 0),
+      COALESCE((s.value->>'completed')::BOOLEAN, true),
+      COALESCE(s.value->>'set_type', 'normal')
+    FROM jsonb_array_elements(COALESCE(v_exercise->'sets', '[]'::JSONB)) WITH ORDINALITY AS s(value, ordinality);
+  END LOOP;
+
+  PERFORM public.refresh_personal_records(v_workout_id);
+
+  RETURN v_workout_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.refresh_personal_records(UUID) TO authenticated;
@@ -0,0 +1,4 @@
+-- Preferred estimated one-rep-max formula, shared by every screen
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS e1rm_formula TEXT NOT NULL DEFAULT 'epley'
+    CHECK (e1rm_formula IN ('epley', 'brzycki', 'lombardi', 'rpe'));
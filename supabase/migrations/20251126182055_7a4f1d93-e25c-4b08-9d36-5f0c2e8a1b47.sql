@@ -0,0 +1,169 @@
+-- Live sessions: when the workout was started and finished
+ALTER TABLE public.workouts
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ;
+
+ALTER TABLE public.workouts
+  ADD CONSTRAINT workouts_session_order_check
+    CHECK (started_at IS NULL OR ended_at IS NULL OR ended_at >= started_at);
+
+-- save_workout now persists the session times
+CREATE OR REPLACE FUNCTION public.save_workout(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+  v_exercises JSONB := COALESCE(payload->'exercises', '[]'::JSONB);
+  v_exercise JSONB;
+  v_exercise_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Workout name is required';
+  END IF;
+
+  INSERT INTO public.workouts (id, user_id, name, notes, started_at, ended_at)
+  VALUES (
+    v_workout_id,
+    auth.uid(),
+    payload->>'name',
+    payload->>'notes',
+    NULLIF(payload->>'started_at', '')::TIMESTAMPTZ,
+    NULLIF(payload->>'ended_at', '')::TIMESTAMPTZ
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes,
+        started_at = EXCLUDED.started_at,
+        ended_at = EXCLUDED.ended_at
+    WHERE workouts.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', v_workout_id;
+  END IF;
+
+  -- Exercises dropped from the payload are removed (their sets cascade)
+  DELETE FROM public.exercises
+  WHERE workout_id = v_workout_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID
+      FROM jsonb_array_elements(v_exercises) AS e
+      WHERE NULLIF(e->>'id', '') IS NOT NULL
+    );
+
+  FOR v_exercise IN SELECT * FROM jsonb_array_elements(v_exercises) LOOP
+    v_exercise_id := COALESCE(NULLIF(v_exercise->>'id', '')::UUID, gen_random_uuid());
+
+    INSERT INTO public.exercises (id, workout_id, exercise_catalog_id, name, notes, sets)
+    VALUES (
+      v_exercise_id,
+      v_workout_id,
+      NULLIF(v_exercise->>'exercise_catalog_id', '')::UUID,
+      v_exercise->>'name',
+      v_exercise->>'notes',
+      jsonb_array_length(COALESCE(v_exercise->'sets', '[]'::JSONB))
+    )
+    ON CONFLICT (id) DO UPDATE
+      SET exercise_catalog_id = EXCLUDED.exercise_catalog_id,
+          name = EXCLUDED.name,
+          notes = EXCLUDED.notes,
+          sets = EXCLUDED.sets
+      WHERE exercises.workout_id = v_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Exercise % belongs to another workout', v_exercise_id;
+    END IF;
+
+    DELETE FROM public.exercise_sets WHERE exercise_id = v_exercise_id;
+
+    INSERT INTO public.exercise_sets (exercise_id, set_number, reps, weight, completed, set_type)
+    SELECT
+      v_exercise_id,
+      s.ordinality,
+      COALESCE((s.value->>'reps')::INTEGER, 0),
+      COALESCE((s.value->>'weight')::DECIMAL, 0),
+      COALESCE((s.value->>'completed')::BOOLEAN, true),
+      COALESCE(s.value->>'set_type', 'normal')
+    FROM jsonb_array_elements(COALESCE(v_exercise->'sets', '[]'::JSONB)) WITH ORDINALITY AS s(value, ordinality);
+  END LOOP;
+
+  PERFORM public.refresh_personal_records(v_workout_id);
+
+  RETURN v_workout_id;
+END;
+$$;
+
+
+-- dashboard_stats gains the average length of timed sessions (NULL until one
+-- exists); the return type changes, so the old definition has to go first
+DROP FUNCTION IF EXISTS public.dashboard_stats(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.dashboard_stats(
+  p_timezone TEXT DEFAULT 'UTC',
+  p_week_start INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  total_workouts BIGINT,
+  this_week BIGINT,
+  this_month BIGINT,
+  total_volume NUMERIC,
+  current_streak INTEGER,
+  avg_duration_seconds INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE p_timezone)::DATE;
+  v_week_start DATE := v_today - ((EXTRACT(DOW FROM v_today)::INTEGER - p_week_start + 7) % 7);
+  v_month_start DATE := date_trunc('month', v_today)::DATE;
+BEGIN
+  RETURN QUERY
+  WITH user_workouts AS (
+    SELECT w.id, w.date, w.started_at, w.ended_at
+    FROM public.workouts w
+    WHERE w.user_id = auth.uid()
+  ),
+  weeks AS (
+    SELECT DISTINCT uw.date - ((EXTRACT(DOW FROM uw.date)::INTEGER - p_week_start + 7) % 7) AS starts_on
+    FROM user_workouts uw
+    WHERE uw.date <= v_today
+  ),
+  ranked_weeks AS (
+    SELECT starts_on, ROW_NUMBER() OVER (ORDER BY starts_on DESC) AS position
+    FROM weeks
+  )
+  SELECT
+    (SELECT COUNT(*) FROM user_workouts),
+    (SELECT COUNT(*) FROM user_workouts uw WHERE uw.date BETWEEN v_week_start AND v_today),
+    (SELECT COUNT(*) FROM user_workouts uw WHERE uw.date BETWEEN v_month_start AND v_today),
+    (
+      SELECT COALESCE(SUM(es.reps * COALESCE(es.weight, 0)), 0)
+      FROM user_workouts uw
+      JOIN public.exercises e ON e.workout_id = uw.id
+      JOIN public.exercise_sets es ON es.exercise_id = e.id
+      WHERE es.completed AND es.set_type <> 'warmup'
+    ),
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM ranked_weeks rw
+      WHERE (SELECT MAX(starts_on) FROM weeks) >= v_week_start - 7
+        AND rw.starts_on = (SELECT MAX(starts_on) FROM weeks) - ((rw.position - 1) * 7)::INTEGER
+    ),
+    (
+      SELECT ROUND(AVG(EXTRACT(EPOCH FROM uw.ended_at - uw.started_at)))::INTEGER
+      FROM user_workouts uw
+      WHERE uw.started_at IS NOT NULL AND uw.ended_at IS NOT NULL
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.dashboard_stats(TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,140 @@
+-- Exercises keep the order they were logged in; created_at is the same for
+-- every row written by one save_workout call, so it cannot be relied on.
+ALTER TABLE public.exercises
+  ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.exercises e
+SET position = ordered.position
+FROM (
+  SELECT id, (ROW_NUMBER() OVER (PARTITION BY workout_id ORDER BY created_at, id) - 1)::INTEGER AS position
+  FROM public.exercises
+) ordered
+WHERE e.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS exercises_workout_id_position_idx
+  ON public.exercises(workout_id, position);
+
+-- Supersets, giant sets and circuits: consecutive exercises sharing a group_id
+-- are performed in rotation, round by round.
+ALTER TABLE public.exercises
+  ADD COLUMN IF NOT EXISTS group_id UUID,
+  ADD COLUMN IF NOT EXISTS group_type TEXT
+    CHECK (group_type IN ('superset', 'giant_set', 'circuit')),
+  ADD CONSTRAINT exercises_group_type_required
+    CHECK ((group_id IS NULL) = (group_type IS NULL));
+
+-- Cluster sets: short intra-set rests, logged as one row per cluster
+ALTER TABLE public.exercise_sets
+  DROP CONSTRAINT IF EXISTS exercise_sets_set_type_check,
+  ADD CONSTRAINT exercise_sets_set_type_check
+    CHECK (set_type IN ('normal', 'warmup', 'drop', 'failure', 'cluster'));
+
+-- save_workout persists the exercise order and grouping
+CREATE OR REPLACE FUNCTION public.save_workout(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+  v_exercises JSONB := COALESCE(payload->'exercises', '[]'::JSONB);
+  v_exercise JSONB;
+  v_position BIGINT;
+  v_exercise_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Workout name is required';
+  END IF;
+
+  INSERT INTO public.workouts (id, user_id, name, notes, started_at, ended_at)
+  VALUES (
+    v_workout_id,
+    auth.uid(),
+    payload->>'name',
+    payload->>'notes',
+    NULLIF(payload->>'started_at', '')::TIMESTAMPTZ,
+    NULLIF(payload->>'ended_at', '')::TIMESTAMPTZ
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes,
+        started_at = EXCLUDED.started_at,
+        ended_at = EXCLUDED.ended_at
+    WHERE workouts.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', v_workout_id;
+  END IF;
+
+  -- Exercises dropped from the payload are removed (their sets cascade)
+  DELETE FROM public.exercises
+  WHERE workout_id = v_workout_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID
+      FROM jsonb_array_elements(v_exercises) AS e
+      WHERE NULLIF(e->>'id', '') IS NOT NULL
+    );
+
+  FOR v_exercise, v_position IN SELECT * FROM jsonb_array_elements(v_exercises) WITH ORDINALITY LOOP
+    v_exercise_id := COALESCE(NULLIF(v_exercise->>'id', '')::UUID, gen_random_uuid());
+
+    INSERT INTO public.exercises (
+      id, workout_id, exercise_catalog_id, kind, position, group_id, group_type, name, notes, sets
+    )
+    VALUES (
+      v_exercise_id,
+      v_workout_id,
+      NULLIF(v_exercise->>'exercise_catalog_id', '')::UUID,
+      COALESCE(NULLIF(v_exercise->>'kind', ''), 'strength'),
+      v_position - 1,
+      NULLIF(v_exercise->>'group_id', '')::UUID,
+      CASE WHEN NULLIF(v_exercise->>'group_id', '') IS NOT NULL THEN NULLIF(v_exercise->>'group_type', '') END,
+      v_exercise->>'name',
+      v_exercise->>'notes',
+      jsonb_array_length(COALESCE(v_exercise->'sets', '[]'::JSONB))
+    )
+    ON CONFLICT (id) DO UPDATE
+      SET exercise_catalog_id = EXCLUDED.exercise_catalog_id,
+          kind = EXCLUDED.kind,
+          position = EXCLUDED.position,
+          group_id = EXCLUDED.group_id,
+          group_type = EXCLUDED.group_type,
+          name = EXCLUDED.name,
+          notes = EXCLUDED.notes,
+          sets = EXCLUDED.sets
+      WHERE exercises.workout_id = v_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Exercise % belongs to another workout', v_exercise_id;
+    END IF;
+
+    DELETE FROM public.exercise_sets WHERE exercise_id = v_exercise_id;
+
+    INSERT INTO public.exercise_sets (
+      exercise_id, set_number, reps, weight, completed, set_type,
+      duration_seconds, distance_meters, calories, incline
+    )
+    SELECT
+      v_exercise_id,
+      s.ordinality,
+      COALESCE((s.value->>'reps')::INTEGER, 0),
+      COALESCE((s.value->>'weight')::DECIMAL, 0),
+      COALESCE((s.value->>'completed')::BOOLEAN, true),
+      COALESCE(s.value->>'set_type', 'normal'),
+      (s.value->>'duration_seconds')::INTEGER,
+      (s.value->>'distance_meters')::DECIMAL,
+      (s.value->>'calories')::INTEGER,
+      (s.value->>'incline')::DECIMAL
+    FROM jsonb_array_elements(COALESCE(v_exercise->'sets', '[]'::JSONB)) WITH ORDINALITY AS s(value, ordinality);
+  END LOOP;
+
+  PERFORM public.refresh_personal_records(v_workout_id);
+
+  RETURN v_workout_id;
+END;
+$$;
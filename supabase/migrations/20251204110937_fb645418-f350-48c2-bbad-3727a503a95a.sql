@@ -0,0 +1,124 @@
+-- Display unit for weights; everything is still stored in kilograms
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS weight_unit TEXT NOT NULL DEFAULT 'kg'
+    CHECK (weight_unit IN ('kg', 'lb'));
+
+-- Unit an exercise was loaded in when it differs from the user's, e.g. a gym
+-- with pound plates; null follows the profile
+ALTER TABLE public.exercises
+  ADD COLUMN IF NOT EXISTS weight_unit TEXT CHECK (weight_unit IN ('kg', 'lb'));
+
+-- save_workout persists the per-exercise unit
+CREATE OR REPLACE FUNCTION public.save_workout(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+  v_exercises JSONB := COALESCE(payload->'exercises', '[]'::JSONB);
+  v_exercise JSONB;
+  v_position BIGINT;
+  v_exercise_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Workout name is required';
+  END IF;
+
+  INSERT INTO public.workouts (id, user_id, name, notes, started_at, ended_at)
+  VALUES (
+    v_workout_id,
+    auth.uid(),
+    payload->>'name',
+    payload->>'notes',
+    NULLIF(payload->>'started_at', '')::TIMESTAMPTZ,
+    NULLIF(payload->>'ended_at', '')::TIMESTAMPTZ
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes,
+        started_at = EXCLUDED.started_at,
+        ended_at = EXCLUDED.ended_at
+    WHERE workouts.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', v_workout_id;
+  END IF;
+
+  -- Exercises dropped from the payload are removed (their sets cascade)
+  DELETE FROM public.exercises
+  WHERE workout_id = v_workout_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID
+      FROM jsonb_array_elements(v_exercises) AS e
+      WHERE NULLIF(e->>'id', '') IS NOT NULL
+    );
+
+  FOR v_exercise, v_position IN SELECT * FROM jsonb_array_elements(v_exercises) WITH ORDINALITY LOOP
+    v_exercise_id := COALESCE(NULLIF(v_exercise->>'id', '')::UUID, gen_random_uuid());
+
+    INSERT INTO public.exercises (
+      id, workout_id, exercise_catalog_id, kind, position, group_id, group_type, weight_unit, name, notes, sets
+    )
+    VALUES (
+      v_exercise_id,
+      v_workout_id,
+      NULLIF(v_exercise->>'exercise_catalog_id', '')::UUID,
+      COALESCE(NULLIF(v_exercise->>'kind', ''), 'strength'),
+      v_position - 1,
+      NULLIF(v_exercise->>'group_id', '')::UUID,
+      CASE WHEN NULLIF(v_exercise->>'group_id', '') IS NOT NULL THEN NULLIF(v_exercise->>'group_type', '') END,
+      NULLIF(v_exercise->>'weight_unit', ''),
+      v_exercise->>'name',
+      v_exercise->>'notes',
+      jsonb_array_length(COALESCE(v_exercise->'sets', '[]'::JSONB))
+    )
+    ON CONFLICT (id) DO UPDATE
+      SET exercise_catalog_id = EXCLUDED.exercise_catalog_id,
+          kind = EXCLUDED.kind,
+          position = EXCLUDED.position,
+          group_id = EXCLUDED.group_id,
+          group_type = EXCLUDED.group_type,
+          weight_unit = EXCLUDED.weight_unit,
+          name = EXCLUDED.name,
+          notes = EXCLUDED.notes,
+          sets = EXCLUDED.sets
+      WHERE exercises.workout_id = v_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Exercise % belongs to another workout', v_exercise_id;
+    END IF;
+
+    DELETE FROM public.exercise_sets WHERE exercise_id = v_exercise_id;
+
+    INSERT INTO public.exercise_sets (
+      exercise_id, set_number, reps, weight, completed, set_type,
+      duration_seconds, distance_meters, calories, incline, rpe, rir, tempo
+    )
+    SELECT
+      v_exercise_id,
+      s.ordinality,
+      COALESCE((s.value->>'reps')::INTEGER, 0),
+      COALESCE((s.value->>'weight')::DECIMAL, 0),
+      COALESCE((s.value->>'completed')::BOOLEAN, true),
+      COALESCE(s.value->>'set_type', 'normal'),
+      (s.value->>'duration_seconds')::INTEGER,
+      (s.value->>'distance_meters')::DECIMAL,
+      (s.value->>'calories')::INTEGER,
+      (s.value->>'incline')::DECIMAL,
+      (s.value->>'rpe')::DECIMAL,
+      (s.value->>'rir')::SMALLINT,
+      NULLIF(s.value->>'tempo', '')
+    FROM jsonb_array_elements(COALESCE(v_exercise->'sets', '[]'::JSONB)) WITH ORDINALITY AS s(value, ordinality);
+  END LOOP;
+
+  PERFORM public.refresh_personal_records(v_workout_id);
+
+  RETURN v_workout_id;
+END;
+$$;
@@ -0,0 +1,463 @@
+-- Program definitions. The structure lives in `definition`:
+-- { weeks: [{ days: [{ name, exercises: [{ name, increment?, sets: [{ reps, percent, amrap? }] }] }] }] }
+-- where `percent` is relative to the lift's training max and `increment`
+-- overrides the program's for that lift. Weights are in kilograms.
+CREATE TABLE IF NOT EXISTS public.programs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  notes TEXT,
+  definition JSONB NOT NULL DEFAULT '{"weeks": []}'::JSONB,
+  -- 'session' adjusts training maxes after every workout, 'cycle' once the
+  -- last week is done (5/3/1 style)
+  progression TEXT NOT NULL DEFAULT 'session'
+    CHECK (progression IN ('session', 'cycle')),
+  increment DECIMAL(10, 2) NOT NULL DEFAULT 2.5 CHECK (increment >= 0),
+  deload_after INTEGER NOT NULL DEFAULT 3 CHECK (deload_after > 0),
+  deload_percent DECIMAL(5, 2) NOT NULL DEFAULT 10
+    CHECK (deload_percent >= 0 AND deload_percent < 100),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A user running a program, and the next day they are due to train
+CREATE TABLE IF NOT EXISTS public.program_enrollments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  program_id UUID NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  cycle INTEGER NOT NULL DEFAULT 1,
+  week INTEGER NOT NULL DEFAULT 1,
+  day INTEGER NOT NULL DEFAULT 1,
+  active BOOLEAN NOT NULL DEFAULT true,
+  started_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One program at a time
+CREATE UNIQUE INDEX IF NOT EXISTS program_enrollments_active_idx
+  ON public.program_enrollments (user_id)
+  WHERE active;
+
+-- Training max per lift of an enrollment, keyed by normalized exercise name
+CREATE TABLE IF NOT EXISTS public.program_lifts (
+  enrollment_id UUID NOT NULL REFERENCES public.program_enrollments(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  training_max DECIMAL(10, 2) NOT NULL CHECK (training_max >= 0),
+  -- Failed sessions since the last increase or deload
+  failures INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (enrollment_id, name)
+);
+
+-- Program day a workout was generated from
+ALTER TABLE public.workouts
+  ADD COLUMN IF NOT EXISTS enrollment_id UUID
+    REFERENCES public.program_enrollments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS program_week INTEGER,
+  ADD COLUMN IF NOT EXISTS program_day INTEGER;
+
+CREATE INDEX IF NOT EXISTS workouts_enrollment_id_idx
+  ON public.workouts (enrollment_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.programs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.program_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.program_lifts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for programs
+CREATE POLICY "Users can view their own programs"
+  ON public.programs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own programs"
+  ON public.programs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own programs"
+  ON public.programs FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own programs"
+  ON public.programs FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for program_enrollments
+CREATE POLICY "Users can view their own enrollments"
+  ON public.program_enrollments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own enrollments"
+  ON public.program_enrollments FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own enrollments"
+  ON public.program_enrollments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own enrollments"
+  ON public.program_enrollments FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for program_lifts
+CREATE POLICY "Users can view lifts from their enrollments"
+  ON public.program_lifts FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.program_enrollments
+    WHERE program_enrollments.id = program_lifts.enrollment_id
+    AND program_enrollments.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create lifts in their enrollments"
+  ON public.program_lifts FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.program_enrollments
+    WHERE program_enrollments.id = program_lifts.enrollment_id
+    AND program_enrollments.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update lifts in their enrollments"
+  ON public.program_lifts FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.program_enrollments
+    WHERE program_enrollments.id = program_lifts.enrollment_id
+    AND program_enrollments.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete lifts from their enrollments"
+  ON public.program_lifts FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.program_enrollments
+    WHERE program_enrollments.id = program_lifts.enrollment_id
+    AND program_enrollments.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_programs_updated_at
+  BEFORE UPDATE ON public.programs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_program_enrollments_updated_at
+  BEFORE UPDATE ON public.program_enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_program_lifts_updated_at
+  BEFORE UPDATE ON public.program_lifts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Starts a program from day 1, ending whatever program was active. Lifts
+-- without a positive training max are left untracked.
+CREATE OR REPLACE FUNCTION public.enroll_program(p_program_id UUID, p_lifts JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_enrollment_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.programs WHERE id = p_program_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Program % not found', p_program_id;
+  END IF;
+
+  UPDATE public.program_enrollments
+  SET active = false
+  WHERE user_id = auth.uid() AND active;
+
+  INSERT INTO public.program_enrollments (user_id, program_id)
+  VALUES (auth.uid(), p_program_id)
+  RETURNING id INTO v_enrollment_id;
+
+  INSERT INTO public.program_lifts (enrollment_id, name, training_max)
+  SELECT v_enrollment_id, public.normalize_exercise_name(l->>'name'), (l->>'training_max')::DECIMAL
+  FROM jsonb_array_elements(COALESCE(p_lifts, '[]'::JSONB)) AS l
+  WHERE COALESCE((l->>'training_max')::DECIMAL, 0) > 0
+  ON CONFLICT (enrollment_id, name) DO NOTHING;
+
+  RETURN v_enrollment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.enroll_program(UUID, JSONB) TO authenticated;
+
+-- Moves an enrollment past the day a workout was logged for and applies the
+-- program's progression to the lifts trained that day. A lift succeeds when
+-- every prescribed set has a matching completed working set with at least
+-- the target reps (AMRAP targets are minimums) at the prescribed weight,
+-- less one 2.5 kg load step for the rounding the app loads the bar with.
+-- Failures deload the training max once `deload_after` of them pile up.
+CREATE OR REPLACE FUNCTION public.advance_program(p_workout_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout public.workouts%ROWTYPE;
+  v_enrollment public.program_enrollments%ROWTYPE;
+  v_program public.programs%ROWTYPE;
+  v_weeks JSONB;
+  v_prescribed JSONB;
+  v_key TEXT;
+  v_training_max DECIMAL;
+  v_success BOOLEAN;
+BEGIN
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id AND user_id = auth.uid();
+
+  IF NOT FOUND OR v_workout.enrollment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_enrollment
+  FROM public.program_enrollments
+  WHERE id = v_workout.enrollment_id AND user_id = auth.uid() AND active
+  FOR UPDATE;
+
+  -- A day logged twice, or from a stale draft, doesn't move the program again
+  IF NOT FOUND
+    OR v_enrollment.week IS DISTINCT FROM v_workout.program_week
+    OR v_enrollment.day IS DISTINCT FROM v_workout.program_day THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_program FROM public.programs WHERE id = v_enrollment.program_id;
+  v_weeks := COALESCE(v_program.definition->'weeks', '[]'::JSONB);
+
+  FOR v_prescribed IN
+    SELECT * FROM jsonb_array_elements(
+      COALESCE(v_weeks->(v_enrollment.week - 1)->'days'->(v_enrollment.day - 1)->'exercises', '[]'::JSONB)
+    )
+  LOOP
+    v_key := public.normalize_exercise_name(v_prescribed->>'name');
+
+    -- Lifts without a training max are loaded by the user, at any weight
+    SELECT training_max INTO v_training_max
+    FROM public.program_lifts
+    WHERE enrollment_id = v_enrollment.id AND name = v_key;
+
+    -- Prescribed sets are matched in order to the lift's logged working sets
+    SELECT COALESCE(bool_and(COALESCE(
+      s.completed
+        AND s.reps >= (p.value->>'reps')::INTEGER
+        AND COALESCE(s.weight, 0) >=
+          COALESCE(v_training_max, 0) * COALESCE((p.value->>'percent')::DECIMAL, 100) / 100 - 2.5,
+      false
+    )), false)
+    INTO v_success
+    FROM jsonb_array_elements(COALESCE(v_prescribed->'sets', '[]'::JSONB)) WITH ORDINALITY AS p(value, ordinality)
+    LEFT JOIN (
+      SELECT
+        es.completed,
+        es.reps,
+        es.weight,
+        row_number() OVER (ORDER BY e.position, es.set_number) AS ordinality
+      FROM public.exercises e
+      JOIN public.exercise_sets es ON es.exercise_id = e.id
+      WHERE e.workout_id = p_workout_id
+        AND public.normalize_exercise_name(e.name) = v_key
+        AND es.set_type NOT IN ('warmup', 'drop')
+    ) s ON s.ordinality = p.ordinality;
+
+    IF v_program.progression = 'session' THEN
+      UPDATE public.program_lifts
+      SET training_max = CASE
+            WHEN v_success
+              THEN training_max + COALESCE((v_prescribed->>'increment')::DECIMAL, v_program.increment)
+            WHEN failures + 1 >= v_program.deload_after
+              THEN training_max * (1 - v_program.deload_percent / 100)
+            ELSE training_max
+          END,
+          failures = CASE
+            WHEN v_success OR failures + 1 >= v_program.deload_after THEN 0
+            ELSE failures + 1
+          END
+      WHERE enrollment_id = v_enrollment.id AND name = v_key;
+    ELSIF NOT v_success THEN
+      UPDATE public.program_lifts
+      SET failures = failures + 1
+      WHERE enrollment_id = v_enrollment.id AND name = v_key;
+    END IF;
+  END LOOP;
+
+  IF v_enrollment.day < jsonb_array_length(COALESCE(v_weeks->(v_enrollment.week - 1)->'days', '[]'::JSONB)) THEN
+    UPDATE public.program_enrollments
+    SET day = day + 1
+    WHERE id = v_enrollment.id;
+  ELSIF v_enrollment.week < jsonb_array_length(v_weeks) THEN
+    UPDATE public.program_enrollments
+    SET week = week + 1, day = 1
+    WHERE id = v_enrollment.id;
+  ELSE
+    -- Cycle-based programs settle every lift once the last week is done
+    IF v_program.progression = 'cycle' THEN
+      UPDATE public.program_lifts l
+      SET training_max = CASE
+            WHEN l.failures >= v_program.deload_after
+              THEN l.training_max * (1 - v_program.deload_percent / 100)
+            ELSE l.training_max + COALESCE(
+              (
+                SELECT (x->>'increment')::DECIMAL
+                FROM jsonb_path_query(v_program.definition, '$.weeks[*].days[*].exercises[*]') AS x
+                WHERE public.normalize_exercise_name(x->>'name') = l.name
+                  AND x ? 'increment'
+                LIMIT 1
+              ),
+              v_program.increment
+            )
+          END,
+          failures = 0
+      WHERE l.enrollment_id = v_enrollment.id;
+    END IF;
+
+    UPDATE public.program_enrollments
+    SET cycle = cycle + 1, week = 1, day = 1
+    WHERE id = v_enrollment.id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.advance_program(UUID) TO authenticated;
+
+-- save_workout records the program day and advances the enrollment
+CREATE OR REPLACE FUNCTION public.save_workout(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+  v_exercises JSONB := COALESCE(payload->'exercises', '[]'::JSONB);
+  v_exercise JSONB;
+  v_position BIGINT;
+  v_exercise_id UUID;
+  v_is_new BOOLEAN;
+  v_enrollment_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Workout name is required';
+  END IF;
+
+  v_is_new := NOT EXISTS (SELECT 1 FROM public.workouts WHERE id = v_workout_id);
+
+  -- A program day the user isn't enrolled in is logged as a plain workout
+  SELECT id INTO v_enrollment_id
+  FROM public.program_enrollments
+  WHERE id = NULLIF(payload->>'enrollment_id', '')::UUID AND user_id = auth.uid();
+
+  INSERT INTO public.workouts (
+    id, user_id, name, notes, started_at, ended_at, enrollment_id, program_week, program_day
+  )
+  VALUES (
+    v_workout_id,
+    auth.uid(),
+    payload->>'name',
+    payload->>'notes',
+    NULLIF(payload->>'started_at', '')::TIMESTAMPTZ,
+    NULLIF(payload->>'ended_at', '')::TIMESTAMPTZ,
+    v_enrollment_id,
+    CASE WHEN v_enrollment_id IS NOT NULL THEN (payload->>'program_week')::INTEGER END,
+    CASE WHEN v_enrollment_id IS NOT NULL THEN (payload->>'program_day')::INTEGER END
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes,
+        started_at = EXCLUDED.started_at,
+        ended_at = EXCLUDED.ended_at
+    WHERE workouts.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', v_workout_id;
+  END IF;
+
+  -- Exercises dropped from the payload are removed (their sets cascade)
+  DELETE FROM public.exercises
+  WHERE workout_id = v_workout_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID
+      FROM jsonb_array_elements(v_exercises) AS e
+      WHERE NULLIF(e->>'id', '') IS NOT NULL
+    );
+
+  FOR v_exercise, v_position IN SELECT * FROM jsonb_array_elements(v_exercises) WITH ORDINALITY LOOP
+    v_exercise_id := COALESCE(NULLIF(v_exercise->>'id', '')::UUID, gen_random_uuid());
+
+    INSERT INTO public.exercises (
+      id, workout_id, exercise_catalog_id, kind, position, group_id, group_type, weight_unit, name, notes, sets
+    )
+    VALUES (
+      v_exercise_id,
+      v_workout_id,
+      NULLIF(v_exercise->>'exercise_catalog_id', '')::UUID,
+      COALESCE(NULLIF(v_exercise->>'kind', ''), 'strength'),
+      v_position - 1,
+      NULLIF(v_exercise->>'group_id', '')::UUID,
+      CASE WHEN NULLIF(v_exercise->>'group_id', '') IS NOT NULL THEN NULLIF(v_exercise->>'group_type', '') END,
+      NULLIF(v_exercise->>'weight_unit', ''),
+      v_exercise->>'name',
+      v_exercise->>'notes',
+      jsonb_array_length(COALESCE(v_exercise->'sets', '[]'::JSONB))
+    )
+    ON CONFLICT (id) DO UPDATE
+      SET exercise_catalog_id = EXCLUDED.exercise_catalog_id,
+          kind = EXCLUDED.kind,
+          position = EXCLUDED.position,
+          group_id = EXCLUDED.group_id,
+          group_type = EXCLUDED.group_type,
+          weight_unit = EXCLUDED.weight_unit,
+          name = EXCLUDED.name,
+          notes = EXCLUDED.notes,
+          sets = EXCLUDED.sets
+      WHERE exercises.workout_id = v_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Exercise % belongs to another workout', v_exercise_id;
+    END IF;
+
+    DELETE FROM public.exercise_sets WHERE exercise_id = v_exercise_id;
+
+    INSERT INTO public.exercise_sets (
+      exercise_id, set_number, reps, weight, completed, set_type,
+      duration_seconds, distance_meters, calories, incline, rpe, rir, tempo
+    )
+    SELECT
+      v_exercise_id,
+      s.ordinality,
+      COALESCE((s.value->>'reps')::INTEGER, 0),
+      COALESCE((s.value->>'weight')::DECIMAL, 0),
+      COALESCE((s.value->>'completed')::BOOLEAN, true),
+      COALESCE(s.value->>'set_type', 'normal'),
+      (s.value->>'duration_seconds')::INTEGER,
+      (s.value->>'distance_meters')::DECIMAL,
+      (s.value->>'calories')::INTEGER,
+      (s.value->>'incline')::DECIMAL,
+      (s.value->>'rpe')::DECIMAL,
+      (s.value->>'rir')::SMALLINT,
+      NULLIF(s.value->>'tempo', '')
+    FROM jsonb_array_elements(COALESCE(v_exercise->'sets', '[]'::JSONB)) WITH ORDINALITY AS s(value, ordinality);
+  END LOOP;
+
+  PERFORM public.refresh_personal_records(v_workout_id);
+
+  -- Only the first save of a program day moves the program; edits don't
+  IF v_is_new AND v_enrollment_id IS NOT NULL THEN
+    PERFORM public.advance_program(v_workout_id);
+  END IF;
+
+  RETURN v_workout_id;
+END;
+$$;
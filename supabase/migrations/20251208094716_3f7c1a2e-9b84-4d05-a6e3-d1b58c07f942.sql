@@ -0,0 +1,183 @@
+-- Workouts scheduled ahead of time. `status` records what became of them;
+-- a plan still 'planned' after its date was missed.
+CREATE TABLE IF NOT EXISTS public.planned_workouts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  date DATE NOT NULL,
+  name TEXT NOT NULL,
+  notes TEXT,
+  template_id UUID REFERENCES public.workout_templates(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'planned'
+    CHECK (status IN ('planned', 'done', 'skipped')),
+  -- Workout that fulfilled the plan, when it was started from it
+  workout_id UUID REFERENCES public.workouts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS planned_workouts_user_date_idx
+  ON public.planned_workouts (user_id, date);
+
+-- Enable Row Level Security
+ALTER TABLE public.planned_workouts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for planned_workouts
+CREATE POLICY "Users can view their own planned workouts"
+  ON public.planned_workouts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own planned workouts"
+  ON public.planned_workouts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own planned workouts"
+  ON public.planned_workouts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own planned workouts"
+  ON public.planned_workouts FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_planned_workouts_updated_at
+  BEFORE UPDATE ON public.planned_workouts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- save_workout marks the plan a workout was started from as done
+CREATE OR REPLACE FUNCTION public.save_workout(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+  v_exercises JSONB := COALESCE(payload->'exercises', '[]'::JSONB);
+  v_exercise JSONB;
+  v_position BIGINT;
+  v_exercise_id UUID;
+  v_is_new BOOLEAN;
+  v_enrollment_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Workout name is required';
+  END IF;
+
+  v_is_new := NOT EXISTS (SELECT 1 FROM public.workouts WHERE id = v_workout_id);
+
+  -- A program day the user isn't enrolled in is logged as a plain workout
+  SELECT id INTO v_enrollment_id
+  FROM public.program_enrollments
+  WHERE id = NULLIF(payload->>'enrollment_id', '')::UUID AND user_id = auth.uid();
+
+  INSERT INTO public.workouts (
+    id, user_id, name, notes, started_at, ended_at, enrollment_id, program_week, program_day
+  )
+  VALUES (
+    v_workout_id,
+    auth.uid(),
+    payload->>'name',
+    payload->>'notes',
+    NULLIF(payload->>'started_at', '')::TIMESTAMPTZ,
+    NULLIF(payload->>'ended_at', '')::TIMESTAMPTZ,
+    v_enrollment_id,
+    CASE WHEN v_enrollment_id IS NOT NULL THEN (payload->>'program_week')::INTEGER END,
+    CASE WHEN v_enrollment_id IS NOT NULL THEN (payload->>'program_day')::INTEGER END
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes,
+        started_at = EXCLUDED.started_at,
+        ended_at = EXCLUDED.ended_at
+    WHERE workouts.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', v_workout_id;
+  END IF;
+
+  -- Exercises dropped from the payload are removed (their sets cascade)
+  DELETE FROM public.exercises
+  WHERE workout_id = v_workout_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID
+      FROM jsonb_array_elements(v_exercises) AS e
+      WHERE NULLIF(e->>'id', '') IS NOT NULL
+    );
+
+  FOR v_exercise, v_position IN SELECT * FROM jsonb_array_elements(v_exercises) WITH ORDINALITY LOOP
+    v_exercise_id := COALESCE(NULLIF(v_exercise->>'id', '')::UUID, gen_random_uuid());
+
+    INSERT INTO public.exercises (
+      id, workout_id, exercise_catalog_id, kind, position, group_id, group_type, weight_unit, name, notes, sets
+    )
+    VALUES (
+      v_exercise_id,
+      v_workout_id,
+      NULLIF(v_exercise->>'exercise_catalog_id', '')::UUID,
+      COALESCE(NULLIF(v_exercise->>'kind', ''), 'strength'),
+      v_position - 1,
+      NULLIF(v_exercise->>'group_id', '')::UUID,
+      CASE WHEN NULLIF(v_exercise->>'group_id', '') IS NOT NULL THEN NULLIF(v_exercise->>'group_type', '') END,
+      NULLIF(v_exercise->>'weight_unit', ''),
+      v_exercise->>'name',
+      v_exercise->>'notes',
+      jsonb_array_length(COALESCE(v_exercise->'sets', '[]'::JSONB))
+    )
+    ON CONFLICT (id) DO UPDATE
+      SET exercise_catalog_id = EXCLUDED.exercise_catalog_id,
+          kind = EXCLUDED.kind,
+          position = EXCLUDED.position,
+          group_id = EXCLUDED.group_id,
+          group_type = EXCLUDED.group_type,
+          weight_unit = EXCLUDED.weight_unit,
+          name = EXCLUDED.name,
+          notes = EXCLUDED.notes,
+          sets = EXCLUDED.sets
+      WHERE exercises.workout_id = v_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Exercise % belongs to another workout', v_exercise_id;
+    END IF;
+
+    DELETE FROM public.exercise_sets WHERE exercise_id = v_exercise_id;
+
+    INSERT INTO public.exercise_sets (
+      exercise_id, set_number, reps, weight, completed, set_type,
+      duration_seconds, distance_meters, calories, incline, rpe, rir, tempo
+    )
+    SELECT
+      v_exercise_id,
+      s.ordinality,
+      COALESCE((s.value->>'reps')::INTEGER, 0),
+      COALESCE((s.value->>'weight')::DECIMAL, 0),
+      COALESCE((s.value->>'completed')::BOOLEAN, true),
+      COALESCE(s.value->>'set_type', 'normal'),
+      (s.value->>'duration_seconds')::INTEGER,
+      (s.value->>'distance_meters')::DECIMAL,
+      (s.value->>'calories')::INTEGER,
+      (s.value->>'incline')::DECIMAL,
+      (s.value->>'rpe')::DECIMAL,
+      (s.value->>'rir')::SMALLINT,
+      NULLIF(s.value->>'tempo', '')
+    FROM jsonb_array_elements(COALESCE(v_exercise->'sets', '[]'::JSONB)) WITH ORDINALITY AS s(value, ordinality);
+  END LOOP;
+
+  PERFORM public.refresh_personal_records(v_workout_id);
+
+  -- A workout started from a plan fulfils it
+  UPDATE public.planned_workouts
+  SET status = 'done', workout_id = v_workout_id
+  WHERE id = NULLIF(payload->>'planned_workout_id', '')::UUID AND user_id = auth.uid();
+
+  -- Only the first save of a program day moves the program; edits don't
+  IF v_is_new AND v_enrollment_id IS NOT NULL THEN
+    PERFORM public.advance_program(v_workout_id);
+  END IF;
+
+  RETURN v_workout_id;
+END;
+$$;
@@ -0,0 +1,208 @@
+-- IANA timezone the user's calendar days are counted in. Null until the
+-- app records the device's timezone on first sign-in.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- Records the timezone the first time the app knows it, and with it fixes
+-- the user's legacy dates. Those defaulted to CURRENT_DATE on a UTC server,
+-- so evening sessions landed on the next day. Dates were never editable, so
+-- a date matching the UTC day of creation was defaulted and is recomputed
+-- in the user's own timezone; personal records follow their workouts. Once
+-- a timezone is stored this does nothing, so the backfill runs only once.
+CREATE OR REPLACE FUNCTION public.set_initial_timezone(p_timezone TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone %', p_timezone;
+  END IF;
+
+  INSERT INTO public.profiles (user_id, timezone)
+  VALUES (auth.uid(), p_timezone)
+  ON CONFLICT (user_id) DO UPDATE
+  SET timezone = EXCLUDED.timezone
+  WHERE public.profiles.timezone IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.workouts
+  SET date = (COALESCE(started_at, created_at) AT TIME ZONE p_timezone)::DATE
+  WHERE user_id = auth.uid()
+    AND created_at IS NOT NULL
+    AND date = (created_at AT TIME ZONE 'UTC')::DATE
+    AND date <> (COALESCE(started_at, created_at) AT TIME ZONE p_timezone)::DATE;
+
+  UPDATE public.personal_records pr
+  SET achieved_on = w.date
+  FROM public.workouts w
+  WHERE pr.workout_id = w.id
+    AND pr.user_id = auth.uid()
+    AND pr.achieved_on <> w.date;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_initial_timezone(TEXT) TO authenticated;
+
+-- save_workout stores the workout's calendar day instead of the server's
+CREATE OR REPLACE FUNCTION public.save_workout(payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id UUID := COALESCE(NULLIF(payload->>'id', '')::UUID, gen_random_uuid());
+  v_exercises JSONB := COALESCE(payload->'exercises', '[]'::JSONB);
+  v_exercise JSONB;
+  v_position BIGINT;
+  v_exercise_id UUID;
+  v_is_new BOOLEAN;
+  v_enrollment_id UUID;
+  v_timezone TEXT;
+  v_date DATE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(TRIM(payload->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Workout name is required';
+  END IF;
+
+  -- The client sends the calendar day it shows; payloads queued before dates
+  -- were sent fall back to the session start (or now) in the user's timezone
+  SELECT timezone INTO v_timezone
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  v_date := COALESCE(
+    NULLIF(payload->>'date', '')::DATE,
+    (COALESCE(NULLIF(payload->>'started_at', '')::TIMESTAMPTZ, NOW()) AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE
+  );
+
+  v_is_new := NOT EXISTS (SELECT 1 FROM public.workouts WHERE id = v_workout_id);
+
+  -- A program day the user isn't enrolled in is logged as a plain workout
+  SELECT id INTO v_enrollment_id
+  FROM public.program_enrollments
+  WHERE id = NULLIF(payload->>'enrollment_id', '')::UUID AND user_id = auth.uid();
+
+  INSERT INTO public.workouts (
+    id, user_id, name, notes, date, started_at, ended_at, enrollment_id, program_week, program_day
+  )
+  VALUES (
+    v_workout_id,
+    auth.uid(),
+    payload->>'name',
+    payload->>'notes',
+    v_date,
+    NULLIF(payload->>'started_at', '')::TIMESTAMPTZ,
+    NULLIF(payload->>'ended_at', '')::TIMESTAMPTZ,
+    v_enrollment_id,
+    CASE WHEN v_enrollment_id IS NOT NULL THEN (payload->>'program_week')::INTEGER END,
+    CASE WHEN v_enrollment_id IS NOT NULL THEN (payload->>'program_day')::INTEGER END
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        notes = EXCLUDED.notes,
+        -- Edits without a date keep the one already stored
+        date = CASE WHEN NULLIF(payload->>'date', '') IS NOT NULL THEN EXCLUDED.date ELSE workouts.date END,
+        started_at = EXCLUDED.started_at,
+        ended_at = EXCLUDED.ended_at
+    WHERE workouts.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', v_workout_id;
+  END IF;
+
+  -- Exercises dropped from the payload are removed (their sets cascade)
+  DELETE FROM public.exercises
+  WHERE workout_id = v_workout_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID
+      FROM jsonb_array_elements(v_exercises) AS e
+      WHERE NULLIF(e->>'id', '') IS NOT NULL
+    );
+
+  FOR v_exercise, v_position IN SELECT * FROM jsonb_array_elements(v_exercises) WITH ORDINALITY LOOP
+    v_exercise_id := COALESCE(NULLIF(v_exercise->>'id', '')::UUID, gen_random_uuid());
+
+    INSERT INTO public.exercises (
+      id, workout_id, exercise_catalog_id, kind, position, group_id, group_type, weight_unit, name, notes, sets
+    )
+    VALUES (
+      v_exercise_id,
+      v_workout_id,
+      NULLIF(v_exercise->>'exercise_catalog_id', '')::UUID,
+      COALESCE(NULLIF(v_exercise->>'kind', ''), 'strength'),
+      v_position - 1,
+      NULLIF(v_exercise->>'group_id', '')::UUID,
+      CASE WHEN NULLIF(v_exercise->>'group_id', '') IS NOT NULL THEN NULLIF(v_exercise->>'group_type', '') END,
+      NULLIF(v_exercise->>'weight_unit', ''),
+      v_exercise->>'name',
+      v_exercise->>'notes',
+      jsonb_array_length(COALESCE(v_exercise->'sets', '[]'::JSONB))
+    )
+    ON CONFLICT (id) DO UPDATE
+      SET exercise_catalog_id = EXCLUDED.exercise_catalog_id,
+          kind = EXCLUDED.kind,
+          position = EXCLUDED.position,
+          group_id = EXCLUDED.group_id,
+          group_type = EXCLUDED.group_type,
+          weight_unit = EXCLUDED.weight_unit,
+          name = EXCLUDED.name,
+          notes = EXCLUDED.notes,
+          sets = EXCLUDED.sets
+      WHERE exercises.workout_id = v_workout_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Exercise % belongs to another workout', v_exercise_id;
+    END IF;
+
+    DELETE FROM public.exercise_sets WHERE exercise_id = v_exercise_id;
+
+    INSERT INTO public.exercise_sets (
+      exercise_id, set_number, reps, weight, completed, set_type,
+      duration_seconds, distance_meters, calories, incline, rpe, rir, tempo
+    )
+    SELECT
+      v_exercise_id,
+      s.ordinality,
+      COALESCE((s.value->>'reps')::INTEGER, 0),
+      COALESCE((s.value->>'weight')::DECIMAL, 0),
+      COALESCE((s.value->>'completed')::BOOLEAN, true),
+      COALESCE(s.value->>'set_type', 'normal'),
+      (s.value->>'duration_seconds')::INTEGER,
+      (s.value->>'distance_meters')::DECIMAL,
+      (s.value->>'calories')::INTEGER,
+      (s.value->>'incline')::DECIMAL,
+      (s.value->>'rpe')::DECIMAL,
+      (s.value->>'rir')::SMALLINT,
+      NULLIF(s.value->>'tempo', '')
+    FROM jsonb_array_elements(COALESCE(v_exercise->'sets', '[]'::JSONB)) WITH ORDINALITY AS s(value, ordinality);
+  END LOOP;
+
+  PERFORM public.refresh_personal_records(v_workout_id);
+
+  -- A workout started from a plan fulfils it
+  UPDATE public.planned_workouts
+  SET status = 'done', workout_id = v_workout_id
+  WHERE id = NULLIF(payload->>'planned_workout_id', '')::UUID AND user_id = auth.uid();
+
+  -- Only the first save of a program day moves the program; edits don't
+  IF v_is_new AND v_enrollment_id IS NOT NULL THEN
+    PERFORM public.advance_program(v_workout_id);
+  END IF;
+
+  RETURN v_workout_id;
+END;
+$$;
@@ -0,0 +1,131 @@
+-- refresh_personal_records keys lifts by their catalog entry, so aliases of
+-- one lift ("Bench Press", "Supino Reto com Barra") share a PR history;
+-- unmapped exercises still fall back to their normalized name
+CREATE OR REPLACE FUNCTION public.refresh_personal_records(p_workout_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout public.workouts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', p_workout_id;
+  END IF;
+
+  DELETE FROM public.personal_records WHERE workout_id = p_workout_id;
+
+  INSERT INTO public.personal_records
+    (user_id, workout_id, exercise_id, exercise_name, record_type, value, weight, reps, rpe, rir, previous_value, achieved_on)
+  WITH logged AS (
+    SELECT
+      w.id AS workout_id,
+      e.id AS exercise_id,
+      e.name AS exercise_name,
+      COALESCE(e.exercise_catalog_id::TEXT, public.normalize_exercise_name(e.name)) AS exercise_key,
+      COALESCE(s.weight, 0) AS weight,
+      s.reps,
+      s.rpe,
+      s.rir,
+      -- Epley over reps to failure, as in estimateOneRepMax: reps in reserve count as reps
+      CASE
+        WHEN s.reps = 1 AND COALESCE(s.rpe, 10 - s.rir, 10) >= 10 THEN COALESCE(s.weight, 0)
+        ELSE COALESCE(s.weight, 0)
+          * (1 + (s.reps + 10 - GREATEST(COALESCE(s.rpe, 10 - s.rir, 10), 0)) / 30.0)
+      END AS e1rm,
+      w.id = p_workout_id AS is_current
+    FROM public.workouts w
+    JOIN public.exercises e ON e.workout_id = w.id
+    JOIN public.exercise_sets s ON s.exercise_id = e.id
+    WHERE w.user_id = auth.uid()
+      AND s.completed
+      AND s.set_type <> 'warmup'
+      AND s.reps > 0
+      AND (
+        w.id = p_workout_id
+        OR (w.date, COALESCE(w.created_at, '-infinity'))
+          < (v_workout.date, COALESCE(v_workout.created_at, 'infinity'))
+      )
+  ),
+  current_sets AS (
+    SELECT * FROM logged WHERE is_current
+  ),
+  prior_sets AS (
+    SELECT * FROM logged
+    WHERE NOT is_current
+      AND exercise_key IN (SELECT exercise_key FROM current_sets)
+  ),
+  prior_best AS (
+    SELECT exercise_key, MAX(weight) AS weight, MAX(e1rm) AS e1rm
+    FROM prior_sets
+    GROUP BY exercise_key
+  ),
+  prior_volume AS (
+    SELECT exercise_key, MAX(volume) AS volume
+    FROM (
+      SELECT exercise_key, SUM(weight * reps) AS volume
+      FROM prior_sets
+      GROUP BY exercise_key, workout_id
+    ) sessions
+    GROUP BY exercise_key
+  ),
+  weight_records AS (
+    SELECT DISTINCT ON (c.exercise_key) c.*, p.weight AS previous_value
+    FROM current_sets c
+    JOIN prior_best p USING (exercise_key)
+    WHERE c.weight > p.weight
+    ORDER BY c.exercise_key, c.weight DESC, c.reps DESC
+  ),
+  -- More reps than ever managed at this weight or heavier
+  reps_records AS (
+    SELECT DISTINCT ON (c.exercise_key) c.*, r.reps AS previous_value
+    FROM current_sets c
+    CROSS JOIN LATERAL (
+      SELECT MAX(p.reps) AS reps
+      FROM prior_sets p
+      WHERE p.exercise_key = c.exercise_key AND p.weight >= c.weight
+    ) r
+    WHERE c.reps > r.reps
+    ORDER BY c.exercise_key, c.weight DESC, c.reps DESC
+  ),
+  e1rm_records AS (
+    SELECT DISTINCT ON (c.exercise_key) c.*, p.e1rm AS previous_value
+    FROM current_sets c
+    JOIN prior_best p USING (exercise_key)
+    WHERE c.e1rm > p.e1rm
+    ORDER BY c.exercise_key, c.e1rm DESC
+  ),
+  volume_records AS (
+    SELECT v.*, p.volume AS previous_value
+    FROM (
+      SELECT
+        exercise_key,
+        (ARRAY_AGG(exercise_id ORDER BY exercise_id))[1] AS exercise_id,
+        (ARRAY_AGG(exercise_name ORDER BY exercise_id))[1] AS exercise_name,
+        SUM(weight * reps) AS volume
+      FROM current_sets
+      GROUP BY exercise_key
+    ) v
+    JOIN prior_volume p USING (exercise_key)
+    WHERE v.volume > p.volume
+  )
+  SELECT auth.uid(), p_workout_id, exercise_id, exercise_name, 'weight', weight, weight, reps, rpe, rir, previous_value, v_workout.date
+  FROM weight_records
+  UNION ALL
+  SELECT auth.uid(), p_workout_id, exercise_id, exercise_name, 'reps', reps, weight, reps, rpe, rir, previous_value, v_workout.date
+  FROM reps_records
+  UNION ALL
+  SELECT auth.uid(), p_workout_id, exercise_id, exercise_name, 'e1rm', ROUND(e1rm, 1), weight, reps, rpe, rir, ROUND(previous_value, 1), v_workout.date
+  FROM e1rm_records
+  UNION ALL
+  SELECT auth.uid(), p_workout_id, exercise_id, exercise_name, 'volume', volume, NULL, NULL, NULL, NULL, previous_value, v_workout.date
+  FROM volume_records;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.refresh_personal_records(UUID) TO authenticated;
@@ -0,0 +1,4 @@
+-- First day of the user's week, as EXTRACT(DOW) counts it: Sunday (0) or Monday (1)
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS week_start SMALLINT NOT NULL DEFAULT 0
+    CHECK (week_start IN (0, 1));